@@ -1,13 +1,21 @@
-import { program } from 'commander';
+import net from 'node:net';
+import { type Command, InvalidArgumentError, Option, program } from 'commander';
 import { runSpeedTest } from '@/controllers/runSpeedTest';
 import { description, version } from '../package.json';
-import { formatTestResults } from '@/utils/format';
-import type { TestConfig, TestDisplay, IpGeoResponse } from '@/types';
-import { mergeTestConfig, prepareDisplayInfo } from '@/controllers/processOptions';
+import { formatAddressResults, formatDualStackResults, formatJsonReport, formatLatency, formatSpeed, formatTestResults, writeCsvReport, writeJUnitReport, writeMarkdownReport } from '@/utils/format';
+import type { AddressResult, AssertionResult, BaselineComparison, DualStackResult, Expectation, ExportFormat, HistoryFilter, IpFamily, PingOptions, ServeOptions, SpeedTestOptions, TestConfig, TestDisplay, TestReport, TestResult, IpGeoResponse } from '@/types';
+import { discoverServer, mergeTestConfig, parseExpectations, prepareDisplayInfo, redactConfig } from '@/controllers/processOptions';
 import { getIpGeolocation, getIpGeoOnly } from '@/models/tools/getGeoIp';
-import { resolveDns } from '@/models/tools/dnsResolver';
+import { resolveAllIps, resolveDns } from '@/models/tools/dnsResolver';
+import { configureNetwork, getProxyFromEnv, type NetworkOptions } from '@/models/tools/network';
+import { listResults, saveResult } from '@/models/history';
+import { compareWithBaseline } from '@/models/baseline';
+import { DEFAULT_COMPARE_OPTIONS, DEFAULT_PING_OPTIONS, DEFAULT_SERVE_OPTIONS, DEFAULT_TRACE_OPTIONS, EXIT_CODES } from '@/constant/default';
+import { exportHistory, listHistory, pruneHistory, showHistory, type HistoryExportOptions, type HistoryPruneOptions } from '@/controllers/manageHistory';
+import { serve } from '@/controllers/runServer';
+import { runPing } from '@/controllers/runPing';
 import chalk from 'chalk';
-import { manageDebugMode, isDebugMode, maskIpAddress, countryCodeToFlagEmoji } from './utils/common';
+import { manageDebugMode, manageSilentMode, isDebugMode, maskIpAddress, countryCodeToFlagEmoji, getDataDir, getUrlPort } from './utils/common';
 
 if (isDebugMode()) {
     console.log(chalk.green('Debug mode enabled'));
@@ -53,24 +61,58 @@ function formatLocationInfo(ipInfo: IpGeoResponse): string[] {
 }
 
 /**
- * Display server information
+ * Get the address family forced by -4 or -6
+ * @param config Test Config
+ * @returns Address family, or undefined for the system preference
  */
-async function displayServerInfo(config: TestConfig): Promise<void> {
-    console.log(chalk.yellow('Test Configuration:'));
+function getIpFamily(config: TestConfig): IpFamily | undefined {
+    if (config.ipv4) return 4;
+    if (config.ipv6) return 6;
+    return undefined;
+}
 
+/**
+ * Get server geolocation information
+ * @param config Test Config
+ * @returns Server IP geolocation, or null if the server could not be resolved
+ */
+async function getServerInfo(config: TestConfig): Promise<IpGeoResponse | null> {
     try {
-        const resResult = await resolveDns(config.server);
-        if (resResult.ip) {
-            const ipInfo = await getIpGeoOnly(resResult.ip);
-            const locationInfo = formatLocationInfo(ipInfo);
-            for (const line of locationInfo) console.log(line);
-        }
+        const resResult = await resolveDns(config.server, getIpFamily(config) ?? null);
+        return resResult.ip ? await getIpGeoOnly(resResult.ip) : null;
     } catch (error) {
         console.error(chalk.red('Error details:'), error);
         process.exit(1);
     }
 }
 
+/**
+ * Get client geolocation information
+ * @param config Test Config
+ * @returns Client IP geolocation, with the IP masked according to privacy mode
+ */
+async function getClientInfo(config: TestConfig): Promise<IpGeoResponse> {
+    try {
+        const ipInfo = await getIpGeolocation(config);
+        return { ...ipInfo, ip: maskIpAddress(ipInfo.ip, config.privacy) };
+    } catch (error) {
+        console.error(chalk.red('Error details:'), error);
+        process.exit(1);
+    }
+}
+
+/**
+ * Display server information
+ */
+function displayServerInfo(ipInfo: IpGeoResponse | null): void {
+    console.log(chalk.yellow('Test Configuration:'));
+
+    if (ipInfo) {
+        const locationInfo = formatLocationInfo(ipInfo);
+        for (const line of locationInfo) console.log(line);
+    }
+}
+
 /**
  * Display test configuration
  */
@@ -86,38 +128,34 @@ function displayTestConfig(display: TestDisplay): void {
 /**
  * Display client information
  */
-async function displayClientInfo(config: TestConfig): Promise<void> {
+function displayClientInfo(ipInfo: IpGeoResponse): void {
     console.log(chalk.yellow('\nClient Information:'));
 
-    try {
-        const ipInfo = await getIpGeolocation(config);
-        const { ip, region, country, org } = ipInfo;
-        const countryEmoji = countryCodeToFlagEmoji(country);
-        const location = `${countryEmoji}  ${region}`;
-        const maskedIp = maskIpAddress(ip, config.privacy);
+    const { ip, region, country, org } = ipInfo;
+    const countryEmoji = countryCodeToFlagEmoji(country);
+    const location = `${countryEmoji}  ${region}`;
 
-        console.log(chalk.gray("    IP: ") + chalk.white(`${maskedIp}`) + chalk.gray(` (${org})`));
-        console.log(chalk.gray("    Location: ") + chalk.white(location));
-    } catch (error) {
-        console.error(chalk.red('Error details:'), error);
-        process.exit(1);
-    }
+    console.log(chalk.gray("    IP: ") + chalk.white(`${ip}`) + chalk.gray(` (${org})`));
+    console.log(chalk.gray("    Location: ") + chalk.white(location));
 }
 
 /**
  * Display Start
  * @param display Test Display
  * @type {TestDisplay}
- * @returns Promise<void>
+ * @returns Promise resolving to the server and client geolocation
  */
-async function displayStart(display: TestDisplay, config: TestConfig): Promise<void> {
+async function displayStart(display: TestDisplay, config: TestConfig): Promise<{ server: IpGeoResponse | null; client: IpGeoResponse }> {
     displayLogo();
     displayVersion();
-    await displayServerInfo(config);
+    const server = await getServerInfo(config);
+    displayServerInfo(server);
     displayTestConfig(display);
-    await displayClientInfo(config);
+    const client = await getClientInfo(config);
+    displayClientInfo(client);
 
     console.log(chalk.cyan('\nInitializing speed test...\n'));
+    return { server, client };
 }
 
 /**
@@ -143,67 +181,574 @@ function displayResults(display: TestDisplay): void {
         }
     }
 
+    if (display.results.timing) {
+        console.log(chalk.yellow('\n    Connection Timing:'));
+        for (const [key, value] of Object.entries(display.results.timing)) {
+            console.log(chalk.gray(`        ${key}: `) + chalk.green(value));
+        }
+    }
+
+    if (display.results.bufferbloat) {
+        console.log(chalk.yellow('\n    Latency Under Load:'));
+        for (const [key, value] of Object.entries(display.results.bufferbloat)) {
+            console.log(chalk.gray(`        ${key}: `) + chalk.green(value));
+        }
+    }
+
+    if (display.results.path) {
+        console.log(chalk.yellow('\n    Network Path:'));
+        for (const [key, value] of Object.entries(display.results.path)) {
+            console.log(chalk.gray(`        ${key}: `) + chalk.green(value));
+        }
+    }
+
+    if (display.formattedTables?.dualStack) {
+        console.log(chalk.yellow('\n    Dual Stack:'));
+        console.log(display.formattedTables.dualStack);
+    }
+
+    if (display.formattedTables?.addresses) {
+        console.log(chalk.yellow('\n    Server Addresses:'));
+        console.log(display.formattedTables.addresses);
+    }
+
     console.log(chalk.yellow('\n    Test Information:'));
     for (const [key, value] of Object.entries(display.results.info)) {
         console.log(chalk.gray(`        ${key}: `) + chalk.white(value));
     }
 }
 
+/**
+ * Export Report
+ * @param format Export format
+ * @param file Output file path
+ * @param report Test Report
+ * @param display Test Display
+ * @returns Promise<void>
+ */
+async function exportReport(format: ExportFormat, file: string, report: TestReport, display: TestDisplay): Promise<void> {
+    try {
+        if (format === 'csv') {
+            await writeCsvReport(file, report);
+        } else {
+            await writeMarkdownReport(file, display);
+        }
+    } catch (error) {
+        console.error(chalk.red(`Failed to export results to ${file}:`), error);
+        process.exit(1);
+    }
+}
+
+/**
+ * Save Report to History
+ * @param report Test Report
+ * @returns void
+ */
+function saveToHistory(report: TestReport): void {
+    try {
+        saveResult(report);
+    } catch (error) {
+        console.warn(chalk.yellow('Failed to save test result to history:'), error);
+    }
+}
+
+/**
+ * Compare a result against previous results of the same server and type in history
+ * @param config Test Config
+ * @param result Test Result
+ * @returns Baseline comparison, or undefined if history is unavailable
+ */
+function compareToHistory(config: TestConfig, result: TestResult): BaselineComparison | undefined {
+    try {
+        const previous = listResults({ server: result.testEndpoint, type: config.type, limit: Number(config.compare) });
+        return compareWithBaseline(result, previous.map(entry => entry.report.result), config.compareThreshold ?? DEFAULT_COMPARE_OPTIONS.threshold);
+    } catch (error) {
+        console.warn(chalk.yellow('Failed to read test result history:'), error);
+        return undefined;
+    }
+}
+
+/**
+ * Display Baseline Comparison
+ * @param comparison Baseline Comparison
+ * @returns void
+ */
+function displayComparison(comparison: BaselineComparison): void {
+    console.log(chalk.yellow(`\n    Compared to median of last ${comparison.runs} runs:`));
+
+    if (comparison.metrics.length === 0) {
+        console.log(chalk.gray('        No previous results to compare with'));
+        return;
+    }
+
+    for (const metric of comparison.metrics) {
+        const format = metric.unit === 'bps' ? formatSpeed : formatLatency;
+        const sign = metric.delta >= 0 ? '+' : '';
+        const text = `${format(metric.current)} vs ${format(metric.baseline)} (${sign}${metric.delta.toFixed(1)}%)`;
+        const color = metric.regression
+            ? chalk.red.bold
+            : Math.abs(metric.delta) > comparison.threshold ? chalk.green : chalk.white;
+        console.log(chalk.gray(`        ${metric.name}: `) + color(text));
+    }
+
+    if (comparison.regression) {
+        console.log(chalk.red(`\n    Regression detected (threshold: ${comparison.threshold}%)`));
+    }
+}
+
+/**
+ * Display Assertions
+ * @param assertions Assertion results
+ * @returns void
+ */
+function displayAssertions(assertions: AssertionResult[]): void {
+    console.log(chalk.yellow('\n    Assertions:'));
+    for (const { expectation, passed, skipped, message } of assertions) {
+        const prefix = chalk.gray(`${expectation.metric} ${expectation.expression}: `);
+        if (skipped) {
+            console.log(`        ${chalk.yellow('-')} ${prefix}${chalk.yellow(message)}`);
+            continue;
+        }
+        const mark = passed ? chalk.green('✔') : chalk.red('✘');
+        console.log(`        ${mark} ${prefix}${passed ? chalk.white(message) : chalk.red(message)}`);
+    }
+}
+
+/**
+ * Run the speed test over IPv4 and then over IPv6
+ * @param options Speed test options
+ * @param network Network options other than the address family
+ * @param isJson Whether the output is JSON, which suppresses progress messages
+ * @returns Results of both address families, null if the test failed over a family
+ */
+async function runDualStackTest(options: SpeedTestOptions, network: NetworkOptions, isJson: boolean): Promise<DualStackResult> {
+    const results: DualStackResult = { ipv4: null, ipv6: null };
+    for (const family of [4, 6] as const) {
+        if (!isJson) console.log(chalk.cyan(`Testing over IPv${family}...\n`));
+        try {
+            configureNetwork({ ...network, family });
+            results[`ipv${family}`] = await runSpeedTest(options);
+        } catch (error) {
+            console.warn(chalk.yellow(`Speed test over IPv${family} failed:`), error);
+        }
+        if (!isJson) console.log();
+    }
+    return results;
+}
+
+/**
+ * Run the latency and download phases against every address of the server
+ * @param options Speed test options
+ * @param network Network options of the test
+ * @param isJson Whether the output is JSON, which suppresses progress messages
+ * @returns Results of every address, null if the test failed against an address
+ */
+async function runAllIpsTest(options: SpeedTestOptions, network: NetworkOptions, isJson: boolean): Promise<AddressResult[]> {
+    const url = new URL(options.testEndpoint);
+    const addresses = await resolveAllIps(options.testEndpoint, network.family ?? null);
+    if (addresses.length === 0) throw new Error(`No addresses found for ${url.hostname}`);
+
+    const results: AddressResult[] = [];
+    for (const address of addresses) {
+        if (!isJson) console.log(chalk.cyan(`Testing ${address}...\n`));
+        let result: TestResult | null = null;
+        try {
+            // A fixed address of the server host steers every connection of the test to this address
+            const pin = net.isIP(url.hostname.replace(/^\[|\]$/g, '')) ? [] : [`${url.hostname}:${getUrlPort(url)}:${address}`];
+            configureNetwork({ ...network, resolve: [...pin, ...(network.resolve ?? [])] });
+            result = await runSpeedTest({ ...options, upload: false, trace: false, expectations: [] });
+        } catch (error) {
+            console.warn(chalk.yellow(`Speed test against ${address} failed:`), error);
+        }
+        results.push({ address, result });
+        if (!isJson) console.log();
+    }
+    configureNetwork(network);
+    return results;
+}
+
+/**
+ * Run Speed Test
+ * @param options Command line options
+ * @returns Promise<void>
+ */
+async function runTest(options: TestConfig): Promise<void> {
+    let config: TestConfig;
+    let expectations: Expectation[];
+    try {
+        config = await mergeTestConfig(options);
+        expectations = parseExpectations(config);
+    } catch (error) {
+        // Invalid options abort instead of running a test the user did not ask for
+        console.error(chalk.red((error as Error).message));
+        process.exit(EXIT_CODES.ERROR);
+    }
+
+    manageDebugMode(config.debug ?? false);
+
+    // Allowed for one-off runs against an existing baseline, but the baseline stops growing
+    if (config.compare && !config.history) {
+        console.warn(chalk.yellow('--compare with --no-history only compares with results already in history, this run is not added to them'));
+    }
+
+    const isJson = config.format === 'json';
+    manageSilentMode(isJson);
+
+    // Configured before the server discovery, so its requests use the proxy
+    const network: NetworkOptions = {
+        interface: config.interface,
+        source: config.source,
+        proxy: config.proxy ?? getProxyFromEnv(),
+        resolve: config.resolve,
+        dns: config.dns,
+        doh: config.doh,
+        headers: config.header,
+        userAgent: config.userAgent,
+        basicAuth: config.basicAuth,
+        bearer: config.bearer,
+        cacert: config.cacert,
+        cert: config.cert,
+        key: config.key,
+        insecure: config.insecure,
+        tlsMinVersion: config.tlsMinVersion
+    };
+    try {
+        configureNetwork({ ...network, family: getIpFamily(config) });
+    } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+    }
+
+    await discoverServer(config, options);
+    const display = await prepareDisplayInfo(config);
+
+    const { server, client } = isJson
+        ? { server: await getServerInfo(config), client: await getClientInfo(config) }
+        : await displayStart(display, config);
+
+    try {
+        const startTime = process.hrtime(); // Perf: Start Timing
+
+        const testOptions: SpeedTestOptions = {
+            testEndpoint: config.server,
+            thread: config.thread,
+            timeout: config.timeout,
+            type: config.type,
+            speedtest: config.speedtest,
+            latency: config.latency,
+            latencySamples: config.latencySamples,
+            loadedLatency: config.loadedLatency,
+            timing: config.timing,
+            trace: config.trace,
+            maxHops: config.maxHops,
+            tcpPorts: config.tcpPort,
+            upload: config.upload,
+            uploadUrl: config.uploadUrl,
+            uploadMethod: config.uploadMethod,
+            icmp: config.icmp,
+            tcp: config.tcp,
+            http: config.http,
+            expectations
+        };
+
+        let result: TestResult;
+        let dualStack: DualStackResult | undefined;
+        if (config.dualStack) {
+            dualStack = await runDualStackTest(testOptions, network, isJson);
+            // IPv4 is the primary result, for history, comparisons and assertions
+            const primary = dualStack.ipv4 ?? dualStack.ipv6;
+            if (!primary) throw new Error('Speed test failed over both IPv4 and IPv6');
+            result = primary;
+        } else {
+            result = await runSpeedTest(testOptions);
+        }
+
+        const addresses = config.allIps
+            ? await runAllIpsTest(testOptions, { ...network, family: getIpFamily(config) }, isJson)
+            : undefined;
+
+        const endTime = process.hrtime(startTime); // End Timing
+        const elapsedTimeInS = endTime[0] + (endTime[1] / 1e9); // Converts to seconds
+        formatTestResults(result, display, elapsedTimeInS);
+        // The report is printed, exported and stored, it carries the config without credentials
+        const report: TestReport = { version, config: redactConfig(config), server, client, result, totalTime: elapsedTimeInS };
+
+        if (dualStack) {
+            formatDualStackResults(dualStack, display);
+            report.dualStack = dualStack;
+        }
+
+        if (addresses) {
+            formatAddressResults(addresses, display);
+            report.addresses = addresses;
+        }
+
+        // Compare before saving, so the baseline only holds previous runs
+        if (config.compare) {
+            report.comparison = compareToHistory(config, result);
+        }
+
+        if (config.history) {
+            saveToHistory(report);
+        }
+
+        if (config.export && config.output) {
+            await exportReport(config.export, config.output, report, display);
+        }
+
+        if (config.junit) {
+            await writeJUnitReport(config.junit, report);
+        }
+
+        if (isJson) {
+            console.log(formatJsonReport(report));
+        } else {
+            displayResults(display);
+            if (report.comparison) displayComparison(report.comparison);
+            if (result.assertions) displayAssertions(result.assertions);
+            if (config.output) console.log(chalk.gray(`\nResults exported to ${config.output}`));
+        }
+
+        if (result.assertions?.some(assertion => !assertion.passed && !assertion.skipped)) {
+            process.exit(EXIT_CODES.ASSERTION);
+        }
+        process.exit(report.comparison?.regression ? EXIT_CODES.REGRESSION : EXIT_CODES.SUCCESS);
+    } catch (error) {
+        console.error('Speed test error:', error);
+        process.exit(1);
+    }
+}
+
+/**
+ * Collect Repeatable Option
+ * @param value Option value
+ * @param previous Previously collected values
+ * @returns Collected values
+ */
+function collect(value: string, previous: string[]): string[] {
+    return [...previous, value];
+}
+
+/**
+ * Collect Port Option
+ * @param value Comma separated ports
+ * @param previous Previously collected ports
+ * @returns Collected ports without duplicates
+ */
+function collectPorts(value: string, previous: number[]): number[] {
+    const ports = value.split(',').map(port => {
+        const number = parseInteger(port.trim());
+        if (number < 1 || number > 65535) {
+            throw new InvalidArgumentError(`Invalid port: ${port}`);
+        }
+        return number;
+    });
+    return [...new Set([...previous, ...ports])];
+}
+
+/**
+ * Parse Integer Option
+ * Commander passes the previous value as second argument, so Number.parseInt cannot be used with a default
+ * @param value Option value
+ * @returns Integer
+ */
+function parseInteger(value: string): number {
+    const number = Number.parseInt(value, 10);
+    if (Number.isNaN(number)) {
+        throw new InvalidArgumentError(`Invalid number: ${value}`);
+    }
+    return number;
+}
+
+/**
+ * Parse Count Option
+ * @param value Option value
+ * @returns Integer of 0 or more
+ */
+function parseCount(value: string): number {
+    const number = parseInteger(value);
+    if (number < 0) {
+        throw new InvalidArgumentError(`Invalid number: ${value}, must not be negative`);
+    }
+    return number;
+}
+
+/**
+ * Parse Date Option
+ * @param value Date string, e.g. 2025-01-20 or 2025-01-20T12:00:00Z
+ * @returns Date
+ */
+function parseDate(value: string): Date {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new InvalidArgumentError(`Invalid date: ${value}`);
+    }
+    return date;
+}
+
+/**
+ * Add History Filter Options
+ * @param command Commander command
+ * @returns Command with filter options
+ */
+function addHistoryFilterOptions(command: Command): Command {
+    return command
+        .option('-s, --server <url>', 'Filter by speed test server URL')
+        .option('--type <type>', 'Filter by test type, options: SingleFile, LibreSpeed, Ookla, Cloudflare')
+        .option('--since <date>', 'Only results at or after this date', parseDate)
+        .option('--until <date>', 'Only results before this date', parseDate);
+}
+
+/**
+ * Register History Command
+ * @returns void
+ */
+function registerHistoryCommand(): void {
+    const history = program
+        .command('history')
+        .description(`Manage local test result history (stored in ${getDataDir()})`);
+
+    addHistoryFilterOptions(history.command('list'))
+        .description('List stored test results')
+        .option('-n, --limit <number>', 'Maximum number of results', parseInteger, 20)
+        .action((options: HistoryFilter) => listHistory(options));
+
+    history
+        .command('show')
+        .description('Show a stored test result')
+        .argument('<id>', 'ID of the test result', parseCount)
+        .option('--json', 'Print the raw JSON report', false)
+        .action((id: number, options: { json: boolean }) => showHistory(id, options.json));
+
+    addHistoryFilterOptions(history.command('export'))
+        .description('Export stored test results')
+        .option('--format <format>', 'Export format, options: json, csv', 'json')
+        .option('-o, --output <file>', 'Output file (default: stdout)')
+        .action((options: HistoryExportOptions) => exportHistory(options));
+
+    addHistoryFilterOptions(history.command('prune'))
+        .description('Delete stored test results matching the filters')
+        .option('--keep <number>', 'Keep the newest N matching results', parseCount)
+        .action((options: HistoryPruneOptions) => pruneHistory(options));
+}
+
+/**
+ * Register Serve Command
+ * @returns void
+ */
+function registerServeCommand(): void {
+    program
+        .command('serve')
+        .description('Start a local speed test server with Cloudflare and LibreSpeed endpoints')
+        .option('--host <address>', 'Listen address', DEFAULT_SERVE_OPTIONS.host)
+        .option('-p, --port <number>', 'Listen port', parseInteger, DEFAULT_SERVE_OPTIONS.port)
+        .option('--max-bytes <number>', 'Largest response of a single download request in bytes', parseInteger, DEFAULT_SERVE_OPTIONS.maxBytes)
+        .action((options: ServeOptions) => serve(options));
+}
+
+/**
+ * Register Ping Command
+ * @returns void
+ */
+function registerPingCommand(): void {
+    program
+        .command('ping <targets...>')
+        .description('Monitor the ICMP, TCP and HTTP latency of hosts or URLs continuously')
+        .option('-i, --interval <ms>', 'Interval between probe rounds in milliseconds', parseInteger, DEFAULT_PING_OPTIONS.interval)
+        .option('-c, --count <n>', 'Stop after N probe rounds (default: until interrupted)', parseInteger)
+        .option('--window <n>', 'Number of recent samples the statistics are calculated from', parseInteger, DEFAULT_PING_OPTIONS.window)
+        .option('--log <file>', 'Sample log file (default: aqua-speed-ping-<time>.csv)', true)
+        .option('--no-log', 'Do not write a sample log')
+        .option('--ni, --no-icmp', 'Disable ICMP probes')
+        .option('--nt, --no-tcp', 'Disable TCP probes')
+        .option('--nh, --no-http', 'Disable HTTP probes')
+        .addOption(new Option('--interface <name>', 'Send the probes from the addresses of a network interface').conflicts('source'))
+        .option('--source <ip>', 'Send the probes from a local address')
+        .option('--resolve <host:port:addr>', 'Connect to a fixed address instead of resolving the host, like curl (repeatable)', collect, [])
+        .option('--dns <resolver>', 'DNS resolution of the probes, options: system, doh, dot or the IP address of a DNS server')
+        .option('--doh <url>', 'DoH endpoint with a JSON API, replacing the default providers (repeatable)', collect, [])
+        .option('--header <header>', 'Extra header of the HTTP probes, "Name: value" (repeatable)', collect, [])
+        .option('--user-agent <ua>', 'User-Agent of the HTTP probes')
+        .addOption(new Option('--basic-auth <user:pass>', 'Basic authentication of the HTTP probes').conflicts('bearer'))
+        .option('--bearer <token>', 'Bearer token of the HTTP probes')
+        .option('--cacert <file>', 'PEM file of CA certificates to trust in addition to the bundled ones')
+        .option('--cert <file>', 'PEM file of the client certificate of mutual TLS')
+        .option('--key <file>', 'PEM file of the private key of --cert (default: the --cert file)')
+        .option('-k, --insecure', 'Do not verify server certificates')
+        .option('--tls-min-version <version>', 'Lowest accepted TLS version, options: 1.0, 1.1, 1.2, 1.3')
+        .action((targets: string[], options: Omit<PingOptions, 'targets'>) => runPing({ ...options, targets }));
+}
+
 /**
  * Main Function
  * @returns Promise<void>
  */
 async function main() {
     try {
-        const options = program
+        program
             .version(version)
             .name('aqua-speed')
             .description(description)
-            .option('-s, --server <url>', 'Speed test server URL')
+            .enablePositionalOptions()
+            .option('-s, --server <url>', 'Speed test server URL (optional with --type Ookla)')
+            .option('--server-list <source>', 'Ookla server list URL or file (JSON or XML), used when --server is omitted')
             .option('--sn <name>', 'Speed test server name')
             .option('-t, --thread <number>', 'Number of concurrent connections', Number.parseInt)
             .option('--timeout <seconds>', 'Test timeout in seconds', Number.parseInt)
             .option('--debug', 'Debug mode', false)
             .option('--privacy', 'Privacy mode (Display the local address instead of real IP)', false)
-            .option('--type <type>', 'Default: SingleFile, options: LibreSpeed, Ookla, Cloudflare', 'Cloudflare') // TODO: Ookla is not supported yet
-            // .option('--ns, --no-speedtest', 'Disable speed test')
-            // .option('--nl, --no-latency', 'Disable latency test')
-            // .option('--nu, --no-upload', 'Disable upload test')
-            // .option('--ni, --no-icmp', 'Disable ICMP latency test')
-            // .option('--nt, --no-tcp', 'Disable TCP latency test')
-            // .option('--nh, --no-http', 'Disable HTTP latency test')
-            .parse(process.argv)
-            .opts();
-
-        const config = await mergeTestConfig(options as TestConfig);
-        const display = await prepareDisplayInfo(config);
+            .option('--format <format>', 'Output format, options: text, json', 'text')
+            .option('-o, --output <file>', 'Export results to file (format inferred from .csv/.md extension)')
+            .option('--export <format>', 'Export format, options: csv, md')
+            .option('--no-history', 'Do not save the result to local history')
+            .addOption(new Option('--compare [runs]', 'Compare against the median of the last N runs of the same server and type').preset(DEFAULT_COMPARE_OPTIONS.runs).argParser(Number.parseInt))
+            .option('--compare-threshold <percent>', 'Regression threshold of --compare in percent', Number.parseFloat, DEFAULT_COMPARE_OPTIONS.threshold)
+            .option('--expect-download <expr>', 'Fail unless download speed matches, e.g. ">=200Mbps"')
+            .option('--expect-upload <expr>', 'Fail unless upload speed matches, e.g. ">=50Mbps"')
+            .option('--expect-latency <expr>', 'Fail unless latency matches, e.g. "http.avg<40ms" (repeatable)', collect, [])
+            .option('--expect-jitter <expr>', 'Fail unless jitter matches, e.g. "icmp<5ms" (repeatable)', collect, [])
+            .option('--junit <file>', 'Write assertion results as JUnit XML')
+            .option('--type <type>', 'Default: SingleFile, options: LibreSpeed, Ookla, Cloudflare', 'Cloudflare')
+            .option('--upload-url <url>', 'Upload target of SingleFile type, e.g. a WebDAV or presigned object URL')
+            .option('--upload-method <method>', 'HTTP method of --upload-url, options: PUT, POST', 'POST')
+            .option('--ns, --no-speedtest', 'Disable speed test')
+            .option('--latency-samples <n>', 'Number of latency samples per protocol (default: 10)', parseInteger)
+            .option('--tcp-port <ports>', 'Ports of the TCP latency probe, e.g. "443,80" (repeatable, default: port of the server URL)', collectPorts, [])
+            .option('--timing', 'Show the connection timing breakdown (DNS, TCP connect, TLS, TTFB), always over a direct connection', false)
+            .option('--trace', 'Trace the network path to the server with per-hop latency, loss and ASN', false)
+            .option('--max-hops <n>', 'Maximum number of hops of --trace', parseInteger, DEFAULT_TRACE_OPTIONS.maxHops)
+            .addOption(new Option('-4, --ipv4', 'Run the test over IPv4 only').conflicts(['ipv6', 'dualStack']))
+            .addOption(new Option('-6, --ipv6', 'Run the test over IPv6 only').conflicts('dualStack'))
+            .option('--dual-stack', 'Run the test over IPv4 and IPv6 and compare them side by side', false)
+            .addOption(new Option('--interface <name>', 'Send all test traffic from the addresses of a network interface').conflicts('source'))
+            .option('--source <ip>', 'Send all test traffic from a local address')
+            .option('--resolve <host:port:addr>', 'Connect to a fixed address instead of resolving the host, like curl (repeatable)', collect, [])
+            .addOption(new Option('--all-ips', 'Run the latency and download tests against every address of the server').conflicts('dualStack'))
+            .option('--dns <resolver>', 'DNS resolution of the test connections, options: system, doh, dot or the IP address of a DNS server')
+            .option('--doh <url>', 'DoH endpoint with a JSON API, replacing the default providers (repeatable)', collect, [])
+            .option('--header <header>', 'Extra header of the test requests, "Name: value", an empty value removes a default header (repeatable)', collect, [])
+            .option('--user-agent <ua>', 'User-Agent of the test requests (default: random desktop browser)')
+            .addOption(new Option('--basic-auth <user:pass>', 'Basic authentication of the test requests').conflicts('bearer'))
+            .option('--bearer <token>', 'Bearer token of the test requests')
+            .option('--cacert <file>', 'PEM file of CA certificates to trust in addition to the bundled ones')
+            .option('--cert <file>', 'PEM file of the client certificate of mutual TLS')
+            .option('--key <file>', 'PEM file of the private key of --cert (default: the --cert file)')
+            .option('-k, --insecure', 'Do not verify server certificates', false)
+            .option('--tls-min-version <version>', 'Lowest accepted TLS version, options: 1.0, 1.1, 1.2, 1.3')
+            .option('--proxy <url>', 'Send HTTP requests and WebSockets through a proxy, http, https or socks5 (default: HTTPS_PROXY or ALL_PROXY)')
+            .option('--nl, --no-latency', 'Disable latency test')
+            .option('--nll, --no-loaded-latency', 'Disable latency under load (bufferbloat) measurement')
+            .option('--nu, --no-upload', 'Disable upload test')
+            .option('--ni, --no-icmp', 'Disable ICMP latency test')
+            .option('--nt, --no-tcp', 'Disable TCP latency test')
+            .option('--nh, --no-http', 'Disable HTTP latency test')
+            .action((options: TestConfig) => runTest(options));
 
-        manageDebugMode(config.debug ?? false);
-
-        await displayStart(display, config);
-
-        try {
-            const startTime = process.hrtime(); // Perf: Start Timing
+        registerHistoryCommand();
+        registerServeCommand();
+        registerPingCommand();
 
-            const result = await runSpeedTest({
-                testEndpoint: config.server,
-                thread: config.thread,
-                timeout: config.timeout,
-                type: config.type
-            });
-
-            const endTime = process.hrtime(startTime); // End Timing
-            const elapsedTimeInS = endTime[0] + (endTime[1] / 1e9); // Converts to seconds
-            formatTestResults(result, display);
-            display.results.info['Total Time'] = `${elapsedTimeInS.toFixed(2)}s`;
-
-            displayResults(display);
-
-            process.exit(0);
-        } catch (error) {
-            console.error('Speed test error:', error);
-            process.exit(1);
-        }
+        await program.parseAsync(process.argv);
     } catch (error) {
         console.error(chalk.red('Fatal error:'), error);
         process.exit(1);
@@ -12,6 +12,47 @@ export const DEFAULT_TEST_OPTIONS = {
     debug: isDebugMode()
 };
 
+/**
+ * Process exit codes
+ * @constant
+ */
+export const EXIT_CODES = {
+    SUCCESS: 0,
+    ERROR: 1,
+    /** A metric regressed beyond the --compare threshold */
+    REGRESSION: 2,
+    /** An --expect-* assertion failed */
+    ASSERTION: 3
+};
+
+export const DEFAULT_COMPARE_OPTIONS = {
+    runs: 5,
+    threshold: 10 // percent
+};
+
+export const DEFAULT_SERVE_OPTIONS = {
+    host: '0.0.0.0',
+    port: 8080,
+    maxBytes: 1024 * 1024 * 1024 // 1GB per download request
+};
+
+export const DEFAULT_PING_OPTIONS = {
+    interval: 1000, // ms between probe rounds
+    window: 60 // samples of the rolling statistics
+};
+
+export const DEFAULT_TRACE_OPTIONS = {
+    maxHops: 30,
+    rounds: 5 // probes per hop
+};
+
+export const DEFAULT_OOKLA_SERVER_LIST = 'https://www.speedtest.net/api/js/servers?engine=js&https_functional=true&limit=10';
+
+/**
+ * Number of nearest Ookla servers ranked by latency during discovery
+ */
+export const OOKLA_DISCOVERY_CANDIDATES = 10;
+
 export const TEST_ENDPOINTS = {
     LibreSpeed: (baseUrl: string, testType: string) => {
         const paths = ['/backend', '/speed', ''];
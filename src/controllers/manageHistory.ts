@@ -0,0 +1,138 @@
+import { writeFile } from 'node:fs/promises';
+import chalk from 'chalk';
+import { table } from 'table';
+import type { HistoryEntry, HistoryFilter, TestDisplay } from '@/types';
+import { getResult, listResults, pruneResults } from '@/models/history';
+import { CSV_HEADER, formatCsvRow, formatJsonReport, formatLatency, formatSpeed, formatTestResults } from '@/utils/format';
+
+/**
+ * History export format
+ */
+type HistoryExportFormat = 'json' | 'csv';
+
+/**
+ * Options of `history export`
+ * @interface HistoryExportOptions
+ */
+interface HistoryExportOptions extends HistoryFilter {
+    format: HistoryExportFormat;
+    output?: string;
+}
+
+/**
+ * Options of `history prune`
+ * @interface HistoryPruneOptions
+ */
+interface HistoryPruneOptions extends HistoryFilter {
+    keep?: number;
+}
+
+/**
+ * Formats the summary row of a history entry
+ * @param entry History entry
+ * @returns Table row
+ */
+function formatEntryRow(entry: HistoryEntry): string[] {
+    const { result } = entry.report;
+    return [
+        String(entry.id),
+        entry.timestamp.toLocaleString(),
+        entry.type,
+        entry.serverName,
+        result.download ? formatSpeed(result.download.avg) : 'Skipped',
+        result.upload ? formatSpeed(result.upload.avg) : 'Skipped',
+        result.latency?.http ? formatLatency(result.latency.http.avg) : 'Skipped'
+    ];
+}
+
+/**
+ * Lists stored test results
+ * @param filter History filter
+ */
+function listHistory(filter: HistoryFilter): void {
+    const entries = listResults(filter);
+    if (entries.length === 0) {
+        console.log(chalk.gray('No test results found.'));
+        return;
+    }
+
+    const rows = [
+        ['ID', 'Time', 'Type', 'Server', 'Download', 'Upload', 'HTTP Latency'],
+        ...entries.map(formatEntryRow)
+    ];
+    console.log(table(rows));
+}
+
+/**
+ * Shows a stored test result
+ * @param id Entry ID
+ * @param json Print the raw JSON report instead of tables
+ */
+function showHistory(id: number, json: boolean): void {
+    const entry = getResult(id);
+    if (!entry) {
+        throw new Error(`Test result #${id} not found`);
+    }
+
+    if (json) {
+        console.log(formatJsonReport(entry.report));
+        return;
+    }
+
+    const display: TestDisplay = {
+        serverName: entry.serverName,
+        flags: [],
+        testInfo: {},
+        results: { latency: {}, speed: {}, info: {} }
+    };
+    formatTestResults(entry.report.result, display, entry.report.totalTime);
+
+    console.log(chalk.yellow(`Test Result #${entry.id} (${entry.type}, ${entry.server})`));
+    if (display.formattedTables) {
+        for (const formatted of Object.values(display.formattedTables)) console.log(formatted);
+    }
+}
+
+/**
+ * Exports stored test results, oldest first
+ * @param options Export options
+ */
+async function exportHistory(options: HistoryExportOptions): Promise<void> {
+    const reports = listResults(options).reverse().map(entry => entry.report);
+
+    let content: string;
+    switch (options.format) {
+        case 'json':
+            content = `${JSON.stringify(reports, null, 2)}\n`;
+            break;
+        case 'csv':
+            content = `${[CSV_HEADER.join(','), ...reports.map(report => formatCsvRow(report))].join('\n')}\n`;
+            break;
+        default:
+            throw new Error(`Invalid export format: ${options.format}`);
+    }
+
+    if (options.output) {
+        await writeFile(options.output, content, 'utf8');
+        console.log(chalk.gray(`Exported ${reports.length} test results to ${options.output}`));
+    } else {
+        process.stdout.write(content);
+    }
+}
+
+/**
+ * Deletes stored test results
+ * @param options Prune options
+ */
+function pruneHistory(options: HistoryPruneOptions): void {
+    const { keep, ...filter } = options;
+    if (keep === undefined && !filter.until && !filter.since && !filter.server && !filter.type) {
+        throw new Error('Refusing to delete all test results, please specify --keep, --until or another filter');
+    }
+
+    const deleted = pruneResults(filter, keep);
+    console.log(chalk.gray(`Deleted ${deleted} test results.`));
+}
+
+export { listHistory, showHistory, exportHistory, pruneHistory };
+export type { HistoryExportOptions, HistoryPruneOptions };
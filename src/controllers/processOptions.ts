@@ -1,6 +1,12 @@
 import { getCloudflareColoInfo } from '@/models/tools/cloudflareColo';
-import type { TestConfig, TestDisplay } from '@/types';
-import { isValidUrl, getDomainName } from '@/utils/common';
+import { getProxyFromEnv } from '@/models/tools/network';
+import { discoverOoklaServer } from '@/models/tools/ooklaServers';
+import { DEFAULT_OOKLA_SERVER_LIST, DEFAULT_TRACE_OPTIONS } from '@/constant/default';
+import type { Expectation, ExportFormat, TestConfig, TestDisplay, UploadMethod } from '@/types';
+import { parseExpectation } from '@/models/assertions';
+import path from 'node:path';
+import { isValidUrl, getDomainName, stripUrlCredentials } from '@/utils/common';
+import { checkCsvHeader } from '@/utils/format';
 
 /**
  * Default Test Config
@@ -12,44 +18,119 @@ export const DEFAULT_CONFIG: TestConfig = {
     type: 'Cloudflare', // options: SingleFile, LibreSpeed, Cloudflare, Ookla
     debug: false,
     privacy: false,
+    format: 'text', // options: text, json
+    history: true,
     thread: 4,
     timeout: 30,
+    latencySamples: 10,
     speedtest: true,
     latency: true,
+    loadedLatency: true,
     upload: true,
     icmp: true,
     tcp: true,
     http: true
 };
 
+/**
+ * Infer export format from output file extension
+ * @param file Output file path
+ * @returns Export format
+ */
+function inferExportFormat(file: string): ExportFormat {
+    const ext = path.extname(file).toLowerCase();
+    if (ext === '.csv') return 'csv';
+    if (ext === '.md' || ext === '.markdown') return 'md';
+    throw new Error(`Cannot infer export format from ${file}, please specify --export csv|md`);
+}
+
 /**
  * Merge Test Config
  * @param options Test Config
  * @returns Merged Test Config
+ * @throws {Error} If an option is invalid
  */
 async function mergeTestConfig(options: TestConfig): Promise<TestConfig> {
-    try {
-        // Use default config and merge options
-        const config = {
-            ...DEFAULT_CONFIG,
-            ...options,
-            // Limit thread number to 1-32
-            thread: Math.max(1, Math.min(32, options.thread || DEFAULT_CONFIG.thread)),
-            // Limit timeout to 5-300 seconds
-            timeout: Math.max(5, Math.min(300, options.timeout || DEFAULT_CONFIG.timeout)),
-            // If server type is specified, use user-set type
-            type: options.type || DEFAULT_CONFIG.type
-        };
+    // Use default config and merge options
+    const config = {
+        ...DEFAULT_CONFIG,
+        ...options,
+        // Limit thread number to 1-32
+        thread: Math.max(1, Math.min(32, options.thread || DEFAULT_CONFIG.thread)),
+        // Limit timeout to 5-300 seconds
+        timeout: Math.max(5, Math.min(300, options.timeout || DEFAULT_CONFIG.timeout)),
+        // Limit latency samples to 2-1000, jitter needs at least two
+        latencySamples: Math.max(2, Math.min(1000, options.latencySamples || DEFAULT_CONFIG.latencySamples || 10)),
+        // Limit traced hops to 1-255, the range of the IP TTL
+        maxHops: Math.max(1, Math.min(255, options.maxHops || DEFAULT_TRACE_OPTIONS.maxHops)),
+        // If server type is specified, use user-set type
+        type: options.type || DEFAULT_CONFIG.type
+    };
+
+    if (!isValidUrl(config.server)) {
+        throw new Error(`Invalid server URL: ${config.server}`);
+    }
+
+    if (config.format !== 'text' && config.format !== 'json') {
+        throw new Error(`Invalid output format: ${config.format}`);
+    }
+
+    if (config.compare !== undefined && config.compare !== false && !(Number(config.compare) >= 1)) {
+        throw new Error(`Invalid number of runs to compare: ${config.compare}`);
+    }
 
-        if (!isValidUrl(config.server)) {
-            throw new Error(`Invalid server URL: ${config.server}`);
+    if (config.uploadUrl) {
+        if (!isValidUrl(config.uploadUrl) || !['http:', 'https:'].includes(new URL(config.uploadUrl).protocol)) {
+            throw new Error(`Invalid upload URL: ${config.uploadUrl}`);
         }
+        // Other test types upload to their own endpoints, the target would be ignored
+        if (config.type !== 'SingleFile') {
+            throw new Error(`--upload-url requires --type SingleFile, got ${config.type}`);
+        }
+    }
+
+    // Bun's WebSocket client cannot bind a local address, the test would leave through the default route
+    if (config.type === 'Ookla' && (config.source || config.interface)) {
+        throw new Error(`--${config.source ? 'source' : 'interface'} cannot be used with --type Ookla, its WebSocket connections cannot be bound to a local address`);
+    }
 
+    config.uploadMethod = (config.uploadMethod?.toUpperCase() || 'POST') as UploadMethod;
+    if (config.uploadMethod !== 'PUT' && config.uploadMethod !== 'POST') {
+        throw new Error(`Invalid upload method: ${config.uploadMethod}`);
+    }
+
+    if (config.output && !config.export) {
+        config.export = inferExportFormat(config.output);
+    }
+    if (config.export) {
+        if (config.export !== 'csv' && config.export !== 'md') {
+            throw new Error(`Invalid export format: ${config.export}`);
+        }
+        config.output = config.output || `aqua-speed.${config.export}`;
+        // Checked before the test, so a mismatching file does not discard its result
+        if (config.export === 'csv') await checkCsvHeader(config.output);
+    }
+
+    return config;
+}
+
+/**
+ * Discover Test Server
+ * Picks the nearest Ookla server when --type Ookla is used without --server
+ * @param config Merged Test Config, updated in place
+ * @param options Command line options
+ * @returns Test Config with the discovered server
+ * @throws {Error} If no server could be discovered
+ */
+async function discoverServer(config: TestConfig, options: TestConfig): Promise<TestConfig> {
+    if (config.type !== 'Ookla' || options.server) {
         return config;
-    } catch (error) {
-        console.error('Failed to prepare test config:', error);
-        return DEFAULT_CONFIG;
     }
+
+    const server = await discoverOoklaServer(config.serverList || DEFAULT_OOKLA_SERVER_LIST);
+    config.server = server.url;
+    config.sn = options.sn || [server.sponsor, server.name && `(${server.name})`].filter(Boolean).join(' ') || server.host;
+    return config;
 }
 
 /**
@@ -97,7 +178,11 @@ async function prepareDisplayInfo(config: TestConfig): Promise<TestDisplay> {
 
         if (!config.speedtest) testInfo['Speed Test'] = 'Disabled';
         if (!config.latency) testInfo['Latency Test'] = 'Disabled';
+        if (config.speedtest && !config.loadedLatency) testInfo['Loaded Latency'] = 'Disabled';
         if (!config.upload) testInfo['Upload Test'] = 'Disabled';
+        if (config.upload && config.type === 'SingleFile' && config.uploadUrl) {
+            testInfo['Upload Target'] = `${config.uploadMethod} ${getDomainName(config.uploadUrl)}`;
+        }
 
         const latencyMethods: string[] = [];
         if (config.icmp) latencyMethods.push('ICMP');
@@ -106,6 +191,32 @@ async function prepareDisplayInfo(config: TestConfig): Promise<TestDisplay> {
         if (latencyMethods.length > 0) {
             testInfo['Latency Methods'] = latencyMethods.join(', ');
         }
+        if (config.latency && latencyMethods.length > 0 && config.latencySamples) {
+            testInfo['Latency Samples'] = config.latencySamples;
+        }
+        if (config.tcp && config.tcpPort?.length) testInfo['TCP Ports'] = config.tcpPort.join(', ');
+        const proxy = config.proxy ?? getProxyFromEnv();
+        // The timing probe opens its own sockets, it measures the direct path even with a proxy
+        if (config.latency && config.timing) testInfo['Connection Timing'] = proxy ? 'Enabled (direct, not through the proxy)' : 'Enabled';
+        if (config.interface) testInfo.Interface = config.interface;
+        if (config.source) testInfo['Source Address'] = config.source;
+        // Credentials of the proxy URL are not displayed
+        if (proxy) testInfo.Proxy = stripUrlCredentials(proxy);
+        if (config.resolve?.length) testInfo.Resolve = config.resolve.join(', ');
+        if (config.dns) testInfo.DNS = config.dns === 'doh' && config.doh?.length ? `DoH (${config.doh.join(', ')})` : config.dns;
+        if (config.header?.length) testInfo.Headers = config.header.map(header => header.split(':')[0].trim()).join(', ');
+        if (config.userAgent) testInfo['User-Agent'] = config.userAgent;
+        // Credentials are not displayed
+        if (config.basicAuth) testInfo.Authentication = `Basic (${config.basicAuth.split(':')[0]})`;
+        else if (config.bearer) testInfo.Authentication = 'Bearer token';
+        if (config.cacert) testInfo['CA Certificates'] = config.cacert;
+        if (config.cert) testInfo['Client Certificate'] = config.cert;
+        if (config.insecure) testInfo['Certificate Verification'] = 'Disabled';
+        if (config.tlsMinVersion) testInfo['TLS Min Version'] = config.tlsMinVersion;
+        if (config.allIps) testInfo.Addresses = 'All resolved addresses';
+        if (config.dualStack) testInfo['IP Version'] = 'IPv4 and IPv6';
+        else if (config.ipv4 || config.ipv6) testInfo['IP Version'] = config.ipv4 ? 'IPv4' : 'IPv6';
+        if (config.trace) testInfo['Path Analysis'] = `UDP, up to ${config.maxHops ?? DEFAULT_TRACE_OPTIONS.maxHops} hops`;
 
         return {
             serverName: serverName || DEFAULT_CONFIG.server,
@@ -125,6 +236,63 @@ async function prepareDisplayInfo(config: TestConfig): Promise<TestDisplay> {
 
 
 
+/**
+ * Parse Expectations
+ * @param config - Test Config
+ * @returns Parsed expectations of --expect-* options
+ * @throws {Error} If an expectation is invalid
+ */
+function parseExpectations(config: TestConfig): Expectation[] {
+    const expectations: Expectation[] = [];
+    if (config.expectDownload) expectations.push(parseExpectation('download', config.expectDownload));
+    if (config.expectUpload) expectations.push(parseExpectation('upload', config.expectUpload));
+    for (const expression of config.expectLatency ?? []) {
+        expectations.push(parseExpectation('latency', expression));
+    }
+    for (const expression of config.expectJitter ?? []) {
+        expectations.push(parseExpectation('jitter', expression));
+    }
+    return expectations;
+}
+
+/**
+ * Headers whose values are credentials
+ */
+const SENSITIVE_HEADER_PATTERN = /auth|cookie|token|secret|key|session|password/i;
+
+/**
+ * Removes the credentials of a URL and optionally its query, which carries signatures and tokens of upload and DoH URLs
+ * @param url - URL
+ * @param dropQuery - Whether to remove the query and fragment
+ * @returns Redacted URL
+ */
+function redactUrl(url: string, dropQuery = false): string {
+    const stripped = stripUrlCredentials(url);
+    return dropQuery ? stripped.replace(/[?#].*$/, '') : stripped;
+}
+
+/**
+ * Redact Config
+ * Reports are printed, exported and stored in the history, credentials of the test requests are left out
+ * @param config - Test Config
+ * @returns Copy of the config without bearer token, basic authentication, URL credentials and the queries of upload and DoH URLs, with masked sensitive header values
+ */
+function redactConfig(config: TestConfig): TestConfig {
+    const { basicAuth, bearer, ...redacted } = config;
+    if (config.server) redacted.server = redactUrl(config.server);
+    if (config.serverList) redacted.serverList = redactUrl(config.serverList);
+    if (config.uploadUrl) redacted.uploadUrl = redactUrl(config.uploadUrl, true);
+    if (config.proxy) redacted.proxy = redactUrl(config.proxy);
+    if (config.doh) redacted.doh = config.doh.map(url => redactUrl(url, true));
+    if (config.header) {
+        redacted.header = config.header.map(header => {
+            const name = header.split(':')[0].trim();
+            return SENSITIVE_HEADER_PATTERN.test(name) ? `${name}: ***` : header;
+        });
+    }
+    return redacted;
+}
+
 /**
  * Create default display info
  * @param config - Test Config
@@ -148,4 +316,4 @@ function createDefaultDisplayInfo(config: TestConfig): TestDisplay {
 }
 
 
-export { mergeTestConfig, prepareDisplayInfo };
\ No newline at end of file
+export { mergeTestConfig, discoverServer, prepareDisplayInfo, parseExpectations, redactConfig };
\ No newline at end of file
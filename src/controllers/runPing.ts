@@ -0,0 +1,177 @@
+import { writeFile } from 'node:fs/promises';
+import readline from 'node:readline';
+import chalk from 'chalk';
+import { table } from 'table';
+import type { PingOptions, PingProtocol, PingSample } from '@/types';
+import { closePingTargets, openPingTargets, probePingTargets, type PingTarget } from '@/models/pingMonitor';
+import { configureNetwork, getProxyFromEnv, isProxied } from '@/models/tools/network';
+import { calculateLatencyStats, sleep } from '@/utils/common';
+import { formatLatency } from '@/utils/format';
+
+const PROTOCOLS: PingProtocol[] = ['icmp', 'tcp', 'http'];
+
+/**
+ * Formats the rolling table of the recent samples
+ * @param targets Ping targets
+ * @param samples All samples so far
+ * @param protocols Probed protocols
+ * @param window Number of recent samples per target and protocol
+ * @returns Table rows
+ */
+function formatPingRows(targets: PingTarget[], samples: PingSample[], protocols: PingProtocol[], window: number): string[][] {
+    const rows = [['Target', 'Protocol', 'Last', 'Avg', 'Min', 'Max', 'Jitter', 'Loss']];
+
+    for (const target of targets) {
+        for (const protocol of protocols) {
+            const recent = samples
+                .filter(sample => sample.target === target.name && sample.protocol === protocol)
+                .slice(-window);
+            const stats = calculateLatencyStats(recent.map(sample => sample.rtt));
+            const last = recent[recent.length - 1];
+            let label = protocol.toUpperCase();
+            if (protocol === 'icmp' && target.icmp?.method === 'binary') label = 'ICMP (ping)';
+            else if (protocol === 'http' && isProxied(target.url)) label = 'HTTP (proxy)';
+            const format = (value: number) => stats.received > 0 ? formatLatency(value) : 'N/A';
+
+            rows.push([
+                target.name,
+                label,
+                last ? (last.rtt > 0 ? formatLatency(last.rtt) : chalk.red('lost')) : 'N/A',
+                format(stats.avg),
+                format(stats.min),
+                format(stats.max),
+                format(stats.jitter),
+                `${stats.loss.toFixed(1)}% (${stats.received}/${stats.sent})`
+            ]);
+        }
+    }
+    return rows;
+}
+
+/**
+ * Formats the sample log as CSV
+ * @param samples All samples
+ * @returns CSV document
+ */
+function formatPingLog(samples: PingSample[]): string {
+    const rows = samples.map(sample => [
+        sample.timestamp.toISOString(),
+        sample.target.includes(',') ? `"${sample.target}"` : sample.target,
+        sample.protocol,
+        sample.seq,
+        sample.rtt > 0 ? (sample.rtt / 1000).toFixed(3) : '',
+        sample.rtt > 0 ? 0 : 1
+    ].join(','));
+    return `${['timestamp', 'target', 'protocol', 'seq', 'rtt_ms', 'lost'].join(',')}\n${rows.map(row => `${row}\n`).join('')}`;
+}
+
+/**
+ * Gets the default sample log file name
+ * @param start Start time of the monitor
+ * @returns File name like aqua-speed-ping-20250120-120000.csv
+ */
+function getDefaultLogFile(start: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const date = `${start.getFullYear()}${pad(start.getMonth() + 1)}${pad(start.getDate())}`;
+    const time = `${pad(start.getHours())}${pad(start.getMinutes())}${pad(start.getSeconds())}`;
+    return `aqua-speed-ping-${date}-${time}.csv`;
+}
+
+/**
+ * Redraws the rolling table in place on terminals
+ * @param output Rendered table
+ * @param previousLines Number of lines of the previous rendering
+ * @returns Number of lines of this rendering
+ */
+function render(output: string, previousLines: number): number {
+    if (process.stdout.isTTY && previousLines > 0) {
+        readline.moveCursor(process.stdout, 0, -previousLines);
+        readline.clearScreenDown(process.stdout);
+    }
+    process.stdout.write(output);
+    return output.split('\n').length - 1;
+}
+
+/**
+ * Monitors the latency of targets continuously until interrupted or the count is reached
+ * @param options Ping options
+ */
+async function runPing(options: PingOptions): Promise<void> {
+    const protocols = PROTOCOLS.filter(protocol => options[protocol] !== false);
+    if (protocols.length === 0) {
+        console.error(chalk.red('All protocols are disabled, nothing to probe'));
+        process.exit(1);
+    }
+    if (options.interval <= 0 || options.window <= 0 || (options.count !== undefined && options.count <= 0)) {
+        console.error(chalk.red('Interval, count and window must be positive'));
+        process.exit(1);
+    }
+    try {
+        configureNetwork({
+            // Fetch applies the proxy environment variables anyway, configured they are applied like in speed tests
+            proxy: getProxyFromEnv(),
+            interface: options.interface,
+            source: options.source,
+            resolve: options.resolve,
+            dns: options.dns,
+            doh: options.doh,
+            headers: options.header,
+            userAgent: options.userAgent,
+            basicAuth: options.basicAuth,
+            bearer: options.bearer,
+            cacert: options.cacert,
+            cert: options.cert,
+            key: options.key,
+            insecure: options.insecure,
+            tlsMinVersion: options.tlsMinVersion
+        });
+    } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+    }
+
+    const start = new Date();
+    const targets = await openPingTargets(options.targets, options);
+    const samples: PingSample[] = [];
+    let stopped = false;
+    let lines = 0;
+
+    const stop = () => {
+        stopped = true;
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    if (protocols.includes('http') && targets.some(target => isProxied(target.url))) {
+        console.log(chalk.yellow('HTTP probes marked "HTTP (proxy)" go through the proxy of the environment, ICMP and TCP probes connect directly'));
+    }
+    console.log(chalk.cyan(`Pinging ${targets.map(target => `${target.name} (${target.address})`).join(', ')} every ${options.interval}ms, press Ctrl+C to stop\n`));
+
+    for (let seq = 0; !stopped && (options.count === undefined || seq < options.count); seq++) {
+        const roundStart = performance.now();
+        samples.push(...await probePingTargets(targets, options, seq, options.interval));
+
+        const header = chalk.gray(`Round ${seq + 1}, statistics of the last ${options.window} samples\n`);
+        lines = render(header + table(formatPingRows(targets, samples, protocols, options.window)), lines);
+
+        // Wait for the rest of the interval, probes slower than the interval start the next round at once
+        const remaining = options.interval - (performance.now() - roundStart);
+        if (remaining > 0 && !stopped) await sleep(remaining);
+    }
+
+    closePingTargets(targets);
+
+    if (options.log !== false) {
+        const file = typeof options.log === 'string' ? options.log : getDefaultLogFile(start);
+        try {
+            await writeFile(file, formatPingLog(samples), 'utf8');
+            console.log(chalk.gray(`\n${samples.length} samples written to ${file}`));
+        } catch (error) {
+            console.error(chalk.red(`Failed to write sample log to ${file}:`), error);
+            process.exit(1);
+        }
+    }
+    process.exit(0);
+}
+
+export { runPing };
@@ -0,0 +1,49 @@
+import os from 'node:os';
+import chalk from 'chalk';
+import type { ServeOptions } from '@/types';
+import { startSpeedTestServer } from '@/models/server';
+
+/**
+ * Lists the URLs the server can be reached at
+ * @param host Listen address
+ * @param port Listen port
+ * @returns Server URLs
+ */
+function getServerUrls(host: string, port: number): string[] {
+    if (host !== '0.0.0.0' && host !== '::') {
+        return [`http://${host.includes(':') ? `[${host}]` : host}:${port}`];
+    }
+
+    return Object.values(os.networkInterfaces())
+        .flat()
+        .filter(address => address && address.family === 'IPv4')
+        .map(address => `http://${address?.address}:${port}`);
+}
+
+/**
+ * Runs the built-in speed test server until interrupted
+ * @param options Server options
+ */
+function serve(options: ServeOptions): void {
+    const server = startSpeedTestServer(options);
+    const port = server.port ?? options.port;
+
+    console.log(chalk.cyan(`Aqua Speed test server listening on ${options.host}:${port}\n`));
+    console.log(chalk.white('Endpoints:'));
+    console.log(chalk.gray('  Cloudflare  /__down?bytes=<n>  /__up  /cdn-cgi/trace'));
+    console.log(chalk.gray('  LibreSpeed  [/backend|/speed]/garbage.php  empty.php  getIP.php\n'));
+    console.log(chalk.white('Run a test against it with:'));
+    for (const url of getServerUrls(options.host, port)) {
+        console.log(chalk.gray(`  aqua-speed --type Cloudflare -s ${url}`));
+    }
+
+    const shutdown = () => {
+        console.log(chalk.gray('\nStopping test server...'));
+        server.stop(true);
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+export { serve };
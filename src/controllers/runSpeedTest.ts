@@ -1,7 +1,14 @@
-import type { SpeedTestOptions, TestResult, SpeedStats, LatencyResult } from '@/types';
+import type { SpeedTestOptions, TestResult, SpeedStats, LatencyResult, LatencyStats, BufferbloatResult, LoadedLatency, PathResult } from '@/types';
 import { measureLatency } from '@/models/latencyTest';
+import { measureIdleLatency, startLatencyProbe, summarizeLoadedLatency } from '@/models/loadedLatency';
+import { tracePath } from '@/models/tools/traceroute';
+import { measureDnsLookup } from '@/models/tools/dnsResolver';
+import { inspectTls } from '@/models/tools/tlsInfo';
+import { isProxied } from '@/models/tools/network';
 import { sleep, usToMs, isDebugMode } from '@/utils/common';
 import { measureDownload, measureUpload } from '@/models';
+import { evaluateExpectations } from '@/models/assertions';
+import { formatLatency } from '@/utils/format';
 import Logger from '@/utils/logger';
 import { getDomainName } from '@/utils/common';
 
@@ -13,7 +20,7 @@ interface TestPhaseResult<T> {
 }
 
 interface TestPhaseDefinition<T> {
-    name: 'latency' | 'download' | 'upload';
+    name: 'path' | 'latency' | 'download' | 'upload';
     startMessage: string;
     execute: () => Promise<T>;
     formatResult: (result: T) => string;
@@ -85,19 +92,78 @@ async function executeTestPhase<T>(phase: TestPhaseDefinition<T>): Promise<TestP
     }
 }
 
+function skipTestPhase<T>(phase: TestPhaseDefinition<T>): null {
+    logger.create(phase.name, '').info(`${phase.name.charAt(0).toUpperCase() + phase.name.slice(1)} test skipped`);
+    return null;
+}
+
 function formatLatencyResult(result: LatencyResult): string {
-    const formatMs = (us: number) => usToMs(us).toFixed(2);
-    return `Latency test completed - Avg, ICMP: ${formatMs(result.icmp.avg)}ms, TCP: ${formatMs(result.tcp.avg)}ms, HTTP: ${formatMs(result.http.avg)}ms`;
+    const formatMs = (stats: LatencyStats | null) => {
+        if (!stats) return 'Skipped';
+        const loss = stats.loss > 0 ? ` (${stats.loss.toFixed(1)}% loss)` : '';
+        return `${usToMs(stats.avg).toFixed(2)}ms${loss}`;
+    };
+    const icmp = result.icmpUnavailable ? 'Unavailable' : formatMs(result.icmp);
+    return `Latency test completed - Avg, ICMP: ${icmp}, TCP: ${formatMs(result.tcp)}, HTTP: ${formatMs(result.http)}`;
+}
+
+function formatPathResult(result: PathResult): string {
+    const hops = `${result.hops.length} ${result.hops.length === 1 ? 'hop' : 'hops'}`;
+    const ending = result.reached ? `${hops} to ${result.target}` : `${result.target} not reached after ${hops}`;
+    return `Path analysis completed - ${ending}`;
 }
 
 function formatSpeedResult(result: SpeedStats): string {
     return `${(result.avg / 1000000).toFixed(2)} Mbps`;
 }
 
+function formatLoadedLatency(loaded: LoadedLatency | null): string {
+    if (!loaded) return '';
+    if (!loaded.grade) return ', Loaded latency: N/A';
+    return `, Loaded latency: ${formatLatency(loaded.loaded.median)} (+${formatLatency(loaded.increase)}, Grade ${loaded.grade})`;
+}
+
 export async function runSpeedTest(options: SpeedTestOptions): Promise<TestResult> {
-    const { testEndpoint, thread, type } = options;
+    const { testEndpoint, thread, type, uploadUrl, uploadMethod, icmp = true, tcp = true, http = true } = options;
     const speedTestConfig = { ...DEFAULT_SPEED_TEST_CONFIG, thread, type: type || 'Cloudflare' };
 
+    const runLatency = options.latency !== false && (icmp || tcp || http);
+    const runDownload = options.speedtest !== false;
+    // SingleFile type only uploads to an explicit --upload-url target
+    const runUpload = runDownload && options.upload !== false && (type !== 'SingleFile' || !!uploadUrl);
+    const uploadEndpoint = type === 'SingleFile' && uploadUrl ? uploadUrl : testEndpoint;
+    const runLoadedLatency = options.loadedLatency !== false && (tcp || http);
+    // TCP connect time is the cleanest probe, HTTP only if TCP was disabled
+    const loadedProtocol: LoadedLatency['protocol'] = tcp ? 'tcp' : 'http';
+    // The idle TCP latency of the latency test is measured on the first --tcp-port
+    const loadedPort = loadedProtocol === 'tcp' ? options.tcpPorts?.[0] : undefined;
+    const bufferbloat: BufferbloatResult = { download: null, upload: null };
+    let idleLatency: LatencyStats | null = null;
+
+    /**
+     * Wraps a transfer with a background latency probe, storing the latency under load of its direction
+     */
+    const underLoad = (direction: keyof BufferbloatResult, transfer: () => Promise<SpeedStats>) => async (): Promise<SpeedStats> => {
+        if (!runLoadedLatency) return transfer();
+
+        idleLatency ??= results.latency?.result[loadedProtocol] ?? await measureIdleLatency(testEndpoint, speedTestConfig.type, loadedProtocol, loadedPort);
+        const idle = idleLatency;
+        const probe = startLatencyProbe(testEndpoint, speedTestConfig.type, loadedProtocol, loadedPort);
+        try {
+            return await transfer();
+        } finally {
+            bufferbloat[direction] = summarizeLoadedLatency(loadedProtocol, idle, probe.stop());
+        }
+    };
+
+    const pathPhase: TestPhaseDefinition<PathResult> = {
+        name: 'path',
+        startMessage: 'Tracing network path...',
+        execute: () => tracePath(testEndpoint, { maxHops: options.maxHops }),
+        formatResult: formatPathResult,
+        retryCount: 1
+    };
+
     const testPhases: [
         TestPhaseDefinition<LatencyResult>,
         TestPhaseDefinition<SpeedStats>,
@@ -106,40 +172,81 @@ export async function runSpeedTest(options: SpeedTestOptions): Promise<TestResul
             {
                 name: 'latency',
                 startMessage: 'Measuring latency...',
-                execute: () => measureLatency(testEndpoint, speedTestConfig.type),
+                execute: () => measureLatency(testEndpoint, speedTestConfig.type, { icmp, tcp, http, timing: options.timing, tcpPorts: options.tcpPorts }, options.latencySamples),
                 formatResult: formatLatencyResult
             },
             {
                 name: 'download',
                 startMessage: 'Testing download speed...',
-                execute: () => measureDownload(testEndpoint, speedTestConfig),
-                formatResult: (result) => `Download test completed - Avg: ${formatSpeedResult(result)}`
+                execute: underLoad('download', () => measureDownload(testEndpoint, speedTestConfig)),
+                formatResult: (result) => `Download test completed - Avg: ${formatSpeedResult(result)}${formatLoadedLatency(bufferbloat.download)}`
             },
             {
                 name: 'upload',
                 startMessage: 'Testing upload speed...',
-                execute: () => type === 'SingleFile'
-                    ? Promise.resolve({ avg: 0, max: 0, min: 0, stdDev: 0, error: 0 })
-                    : measureUpload(testEndpoint, speedTestConfig),
-                formatResult: (result) => `Upload test completed - Avg: ${formatSpeedResult(result)}`
+                execute: underLoad('upload', () => measureUpload(uploadEndpoint, { ...speedTestConfig, uploadMethod })),
+                formatResult: (result) => `Upload test completed - Avg: ${formatSpeedResult(result)}${formatLoadedLatency(bufferbloat.upload)}`
             }
         ];
 
+    const results: {
+        path: TestPhaseResult<PathResult> | null;
+        latency: TestPhaseResult<LatencyResult> | null;
+        download: TestPhaseResult<SpeedStats> | null;
+        upload: TestPhaseResult<SpeedStats> | null;
+    } = { path: null, latency: null, download: null, upload: null };
+
     try {
-        const results = {
-            latency: await executeTestPhase(testPhases[0]),
-            download: await executeTestPhase(testPhases[1]),
-            upload: await executeTestPhase(testPhases[2])
-        };
+        // Both connect directly, through a proxy they would not describe the tested connection
+        const inspectConnection = (runLatency || runDownload) && !isProxied(new URL(testEndpoint));
+        const dns = inspectConnection ? await measureDnsLookup(testEndpoint).catch((error: Error) => {
+            logger.debug(`DNS lookup of ${testEndpoint} failed: ${error.message}`);
+            return null;
+        }) : null;
+        const tlsInfo = inspectConnection ? await inspectTls(testEndpoint).catch((error: Error) => {
+            logger.debug(`TLS inspection of ${testEndpoint} failed: ${error.message}`);
+            return null;
+        }) : null;
+
+        // The path is traced on the idle link, a failed trace does not fail the test
+        results.path = options.trace ? await executeTestPhase(pathPhase).catch((error: Error) => {
+            logger.warn(error.message);
+            return null;
+        }) : null;
+        results.latency = runLatency ? await executeTestPhase(testPhases[0]) : skipTestPhase(testPhases[0]);
+        results.download = runDownload ? await executeTestPhase(testPhases[1]) : skipTestPhase(testPhases[1]);
+        results.upload = runUpload ? await executeTestPhase(testPhases[2]) : skipTestPhase(testPhases[2]);
 
-        return {
-            latency: results.latency.result,
-            download: results.download.result,
-            upload: results.upload.result,
+        const result: TestResult = {
+            latency: results.latency?.result ?? null,
+            download: results.download?.result ?? null,
+            upload: results.upload?.result ?? null,
             testEndpoint,
             serverName: getDomainName(testEndpoint),
             timestamp: new Date()
         };
+
+        if (bufferbloat.download || bufferbloat.upload) {
+            result.bufferbloat = bufferbloat;
+        }
+
+        if (results.path) {
+            result.path = results.path.result;
+        }
+
+        if (dns) {
+            result.dns = dns;
+        }
+
+        if (tlsInfo) {
+            result.tls = tlsInfo;
+        }
+
+        if (options.expectations?.length) {
+            result.assertions = evaluateExpectations(result, options.expectations);
+        }
+
+        return result;
     } catch (error) {
         logger.error(`Speed test failed: ${error}`);
         throw error;
@@ -0,0 +1,143 @@
+import type { AssertionResult, Expectation, ExpectationOperator, LatencyResult, LatencyStats, TestResult } from '@/types';
+import { formatLatency, formatSpeed } from '@/utils/format';
+
+const SPEED_UNITS: Record<string, number> = {
+    bps: 1,
+    kbps: 1e3,
+    mbps: 1e6,
+    gbps: 1e9
+};
+
+const LATENCY_UNITS: Record<string, number> = {
+    us: 1,
+    'µs': 1,
+    ms: 1e3,
+    s: 1e6
+};
+
+const SPEED_STATS = ['min', 'avg', 'max'];
+const LATENCY_STATS = ['min', 'avg', 'max', 'median', 'p90', 'p99', 'stddev', 'jitter'];
+const PROTOCOLS: Array<keyof LatencyResult> = ['tcp', 'icmp', 'http'];
+
+const EXPRESSION_PATTERN = /^\s*([a-z0-9.]*)\s*(<=|>=|==|=|<|>)\s*(\d+(?:\.\d+)?)\s*([a-zµ]*)\s*$/i;
+
+/**
+ * Parses an expectation expression, e.g. ">=200Mbps", "http.avg<40ms" or "icmp<5ms" and "icmp.jitter<5ms" for jitter
+ * Speed defaults to avg in Mbps, latency defaults to http.avg in ms, jitter to http in ms.
+ * @param metric - Metric the expression applies to
+ * @param expression - Expression string
+ * @returns Parsed expectation
+ * @throws {Error} If the expression is invalid
+ */
+export function parseExpectation(metric: Expectation['metric'], expression: string): Expectation {
+    const match = expression.match(EXPRESSION_PATTERN);
+    if (!match) {
+        throw new Error(`Invalid ${metric} expectation: ${expression}`);
+    }
+
+    const [, rawPath, rawOperator, rawValue, rawUnit] = match;
+    const operator = (rawOperator === '==' ? '=' : rawOperator) as ExpectationOperator;
+    const segments = rawPath ? rawPath.toLowerCase().split('.') : [];
+    const isLatency = metric === 'latency' || metric === 'jitter';
+
+    let path: string;
+    if (isLatency) {
+        const protocol = segments.length > 0 && PROTOCOLS.includes(segments[0] as keyof LatencyResult) ? segments.shift() : 'http';
+        // Jitter expectations select the protocol, "icmp" and "icmp.jitter" are the same
+        if (metric === 'jitter' && segments[0] === 'jitter') segments.shift();
+        const stat = metric === 'jitter' ? 'jitter' : segments.shift() || 'avg';
+        if (segments.length > 0 || !LATENCY_STATS.includes(stat)) {
+            throw new Error(`Invalid ${metric} path in expectation: ${expression}`);
+        }
+        path = `${protocol}.${stat}`;
+    } else {
+        const stat = segments.shift() || 'avg';
+        if (segments.length > 0 || !SPEED_STATS.includes(stat)) {
+            throw new Error(`Invalid ${metric} path in expectation: ${expression}`);
+        }
+        path = stat;
+    }
+
+    const units = isLatency ? LATENCY_UNITS : SPEED_UNITS;
+    const unit = (rawUnit || (isLatency ? 'ms' : 'mbps')).toLowerCase();
+    if (!(unit in units)) {
+        throw new Error(`Invalid unit "${rawUnit}" in expectation: ${expression}`);
+    }
+
+    return {
+        expression: expression.trim(),
+        metric,
+        path,
+        operator,
+        value: Number(rawValue) * units[unit]
+    };
+}
+
+/**
+ * Reads the value an expectation refers to
+ * @param result - Test result
+ * @param expectation - Expectation
+ * @returns Measured value, or null if it was skipped or failed
+ */
+function readValue(result: TestResult, expectation: Expectation): number | null {
+    if (expectation.metric === 'download' || expectation.metric === 'upload') {
+        const value = result[expectation.metric]?.[expectation.path as 'min' | 'avg' | 'max'];
+        return value === undefined ? null : value;
+    }
+
+    const [protocol, stat] = expectation.path.split('.');
+    const stats = result.latency?.[protocol as 'tcp' | 'icmp' | 'http'];
+    const value = stats?.[stat === 'stddev' ? 'stdDev' : stat as keyof LatencyStats];
+
+    // Latency probes report failures as zero or negative values, older results lack newer statistics
+    if (!stats || stats.avg <= 0 || typeof value !== 'number') return null;
+    return value;
+}
+
+/**
+ * Compares a value with a threshold
+ * @param actual - Measured value
+ * @param operator - Comparison operator
+ * @param expected - Threshold
+ * @returns Whether the comparison holds
+ */
+function compare(actual: number, operator: ExpectationOperator, expected: number): boolean {
+    switch (operator) {
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '=': return actual === expected;
+    }
+}
+
+/**
+ * Checks expectations against a test result
+ * Expectations on ICMP are skipped if ICMP was unavailable
+ * @param result - Test result
+ * @param expectations - Expectations to check
+ * @returns One assertion result per expectation
+ */
+export function evaluateExpectations(result: TestResult, expectations: Expectation[]): AssertionResult[] {
+    return expectations.map(expectation => {
+        const actual = readValue(result, expectation);
+        const isLatency = expectation.metric === 'latency' || expectation.metric === 'jitter';
+        const format = isLatency ? formatLatency : formatSpeed;
+        const name = `${isLatency ? 'latency' : expectation.metric}.${expectation.path}`;
+
+        if (isLatency && expectation.path.startsWith('icmp.') && result.latency?.icmpUnavailable) {
+            return { expectation, actual, passed: false, skipped: true, message: `${name} was skipped, ICMP is unavailable: ${result.latency.icmpUnavailable}` };
+        }
+        if (actual === null) {
+            return { expectation, actual, passed: false, message: `${name} was not measured` };
+        }
+
+        const passed = compare(actual, expectation.operator, expectation.value);
+        return {
+            expectation,
+            actual,
+            passed,
+            message: `${name} = ${format(actual)}, expected ${expectation.operator} ${format(expectation.value)}`
+        };
+    });
+}
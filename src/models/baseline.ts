@@ -0,0 +1,66 @@
+import type { BaselineComparison, BaselineMetric, TestResult } from '@/types';
+import { calculateMedian } from '@/utils/common';
+
+/**
+ * Definition of a compared metric
+ */
+interface MetricDefinition {
+    name: string;
+    unit: BaselineMetric['unit'];
+    /** Whether a higher value is better, e.g. speed */
+    higherIsBetter: boolean;
+    /** Extracts the value from a result, undefined if unavailable */
+    extract: (result: TestResult) => number | undefined;
+}
+
+/**
+ * Only positive values are measurements, 0 and -1 mean the probe failed
+ * @param value - Value to check
+ * @returns The value, or undefined if it is not a measurement
+ */
+const measured = (value: number | undefined): number | undefined =>
+    value !== undefined && value > 0 ? value : undefined;
+
+const METRICS: MetricDefinition[] = [
+    { name: 'Download', unit: 'bps', higherIsBetter: true, extract: r => measured(r.download?.avg) },
+    { name: 'Upload', unit: 'bps', higherIsBetter: true, extract: r => measured(r.upload?.avg) },
+    { name: 'TCP Latency', unit: 'us', higherIsBetter: false, extract: r => measured(r.latency?.tcp?.avg) },
+    { name: 'ICMP Latency', unit: 'us', higherIsBetter: false, extract: r => measured(r.latency?.icmp?.avg) },
+    { name: 'HTTP Latency', unit: 'us', higherIsBetter: false, extract: r => measured(r.latency?.http?.avg) },
+    { name: 'TCP Jitter', unit: 'us', higherIsBetter: false, extract: r => measured(r.latency?.tcp?.jitter) },
+    { name: 'ICMP Jitter', unit: 'us', higherIsBetter: false, extract: r => measured(r.latency?.icmp?.jitter) },
+    { name: 'HTTP Jitter', unit: 'us', higherIsBetter: false, extract: r => measured(r.latency?.http?.jitter) }
+];
+
+/**
+ * Compares a test result against the median of previous results of the same server and type
+ * @param result - Current test result
+ * @param previous - Previous test results
+ * @param threshold - Regression threshold in percent
+ * @returns Baseline comparison, metrics missing on either side are left out
+ */
+export function compareWithBaseline(result: TestResult, previous: TestResult[], threshold: number): BaselineComparison {
+    const metrics: BaselineMetric[] = [];
+
+    for (const metric of METRICS) {
+        const current = metric.extract(result);
+        const history = previous
+            .map(metric.extract)
+            .filter((value): value is number => value !== undefined);
+
+        if (current === undefined || history.length === 0) continue;
+
+        const baseline = calculateMedian(history);
+        const delta = ((current - baseline) / baseline) * 100;
+        const regression = metric.higherIsBetter ? delta < -threshold : delta > threshold;
+
+        metrics.push({ name: metric.name, unit: metric.unit, current, baseline, delta, regression });
+    }
+
+    return {
+        runs: previous.length,
+        threshold,
+        metrics,
+        regression: metrics.some(metric => metric.regression)
+    };
+}
@@ -0,0 +1,218 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import type { ConnectionTiming, TestType } from '@/types';
+import { DEFAULT_FETCH_OPTIONS } from '@/constant/fetch';
+import { resolveDns } from '@/models/tools/dnsResolver';
+import { applyRequestHeaders, getLocalAddress, getNetworkOptions, getTlsSettings, lookupAddress } from '@/models/tools/network';
+import { calculateLatencyStats, getUrlPort } from '@/utils/common';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+/**
+ * Timeout of a whole timing probe in milliseconds
+ */
+const PROBE_TIMEOUT = 5000;
+
+/**
+ * Bytes of the response body read before the probe stops, so large files are not downloaded
+ */
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+/**
+ * Phase durations of a single timing probe in microseconds, failures as -1
+ * @interface TimingSample
+ */
+export interface TimingSample {
+    dns: number;
+    connect: number;
+    /** -1 for plain HTTP */
+    tls: number;
+    ttfb: number;
+    total: number;
+}
+
+const FAILED_SAMPLE: TimingSample = { dns: -1, connect: -1, tls: -1, ttfb: -1, total: -1 };
+
+/**
+ * Microseconds elapsed since a start time
+ * @param start - Start time of process.hrtime.bigint()
+ * @returns Elapsed time in microseconds
+ */
+function elapsed(start: bigint): number {
+    return Number(process.hrtime.bigint() - start) / 1000;
+}
+
+/**
+ * Checks whether a URL is probed over TLS
+ * @param url - Test endpoint
+ * @returns True for https and wss URLs
+ */
+function isTlsUrl(url: URL): boolean {
+    return url.protocol === 'https:' || url.protocol === 'wss:';
+}
+
+/**
+ * Gets the path probed by the HTTP latency test of a test type
+ * @param url - Test endpoint
+ * @param type - Test type
+ * @returns Path including the query
+ */
+function getProbePath(url: URL, type: TestType): string {
+    if (type === 'Cloudflare') return '/cdn-cgi/trace';
+    if (type === 'Ookla') return '/';
+    return `${url.pathname}${url.search}`;
+}
+
+/**
+ * Resolves a hostname, timing the lookup
+ * Uses resolveDns like the server information, the system resolver for names it rejects (e.g. localhost)
+ * Both resolve in the configured address family and honor fixed addresses of the resolve option
+ * @param url - Test endpoint
+ * @returns Resolved address and lookup time in microseconds, 0 for IP addresses
+ * @throws {Error} If the hostname cannot be resolved
+ */
+async function lookup(url: URL): Promise<{ address: string; time: number }> {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host)) return { address: host, time: 0 };
+
+    const start = process.hrtime.bigint();
+    const { ip } = await resolveDns(url.href, getNetworkOptions().family ?? null);
+    const address = ip ?? (await lookupAddress(host, getUrlPort(url))).address;
+    return { address, time: elapsed(start) };
+}
+
+/**
+ * Waits for a socket event, failing on errors
+ * @param socket - Socket
+ * @param event - Event name
+ * @returns Promise resolving when the event fires
+ */
+function once(socket: net.Socket, event: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onError = (error: Error) => {
+            socket.off(event, onEvent);
+            reject(error);
+        };
+        const onEvent = () => {
+            socket.off('error', onError);
+            resolve();
+        };
+        socket.once(event, onEvent);
+        socket.once('error', onError);
+    });
+}
+
+/**
+ * Sends a request and times the first byte and the end of the response
+ * @param socket - Connected socket
+ * @param request - Raw HTTP request
+ * @returns Time to first byte and time to the end of the response in microseconds since the request was sent
+ */
+function exchange(socket: net.Socket, request: string): Promise<{ ttfb: number; total: number }> {
+    return new Promise((resolve, reject) => {
+        const start = process.hrtime.bigint();
+        let ttfb = -1;
+        let received = 0;
+
+        const finish = () => {
+            if (ttfb < 0) {
+                reject(new Error('Connection closed without response'));
+                return;
+            }
+            resolve({ ttfb, total: elapsed(start) });
+        };
+
+        socket.on('data', (chunk: Buffer) => {
+            if (ttfb < 0) ttfb = elapsed(start);
+            received += chunk.length;
+            if (received >= MAX_RESPONSE_BYTES) {
+                finish();
+                socket.destroy();
+            }
+        });
+        socket.once('end', finish);
+        socket.once('error', reject);
+        socket.write(request);
+    });
+}
+
+/**
+ * Runs a single timing probe like `curl -w`: DNS lookup, TCP connect, TLS handshake, time to first byte and total time
+ * @param url - Test endpoint
+ * @param type - Test type
+ * @returns Phase durations in microseconds, all -1 if the probe failed
+ */
+export async function measureTimingSample(url: URL, type: TestType): Promise<TimingSample> {
+    const isHttps = isTlsUrl(url);
+    const port = getUrlPort(url);
+    let socket: net.Socket | null = null;
+    const timeout = setTimeout(() => socket?.destroy(new Error('Timing probe timed out')), PROBE_TIMEOUT);
+
+    try {
+        const dnsResult = await lookup(url);
+
+        let start = process.hrtime.bigint();
+        socket = net.connect({ host: dnsResult.address, port, localAddress: getLocalAddress(dnsResult.address) });
+        await once(socket, 'connect');
+        const connect = elapsed(start);
+
+        let tlsTime = -1;
+        if (isHttps) {
+            start = process.hrtime.bigint();
+            socket = tls.connect({
+                ...getTlsSettings(),
+                socket,
+                servername: net.isIP(url.hostname) ? undefined : url.hostname,
+                ALPNProtocols: ['http/1.1']
+            });
+            await once(socket, 'secureConnect');
+            tlsTime = elapsed(start);
+        }
+
+        const headers = applyRequestHeaders({
+            'User-Agent': (DEFAULT_FETCH_OPTIONS.headers as Record<string, string>)['User-Agent'],
+            'Accept': '*/*'
+        });
+        const request = [
+            `GET ${getProbePath(url, type)} HTTP/1.1`,
+            `Host: ${url.host}`,
+            ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+            'Connection: close',
+            '',
+            ''
+        ].join('\r\n');
+        const { ttfb, total } = await exchange(socket, request);
+
+        return {
+            dns: dnsResult.time,
+            connect,
+            tls: tlsTime,
+            ttfb,
+            total: dnsResult.time + connect + Math.max(0, tlsTime) + total
+        };
+    } catch (error) {
+        logger.debug(`[measureTimingSample] ${url.host}: ${error}`);
+        return FAILED_SAMPLE;
+    } finally {
+        clearTimeout(timeout);
+        socket?.destroy();
+    }
+}
+
+/**
+ * Calculates connection timing statistics from timing probes
+ * @param samples - Timing probes in measurement order
+ * @param url - Test endpoint
+ * @returns Statistics of every phase, DNS null for IP addresses, TLS null for plain HTTP
+ */
+export function calculateConnectionTiming(samples: TimingSample[], url: URL): ConnectionTiming {
+    const phase = (key: keyof TimingSample) => calculateLatencyStats(samples.map(sample => sample[key]));
+    return {
+        dns: net.isIP(url.hostname.replace(/^\[|\]$/g, '')) ? null : phase('dns'),
+        connect: phase('connect'),
+        tls: isTlsUrl(url) ? phase('tls') : null,
+        ttfb: phase('ttfb'),
+        total: phase('total')
+    };
+}
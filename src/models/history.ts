@@ -0,0 +1,167 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import type { HistoryEntry, HistoryFilter, TestReport, TestType } from '@/types';
+import { getDataDir } from '@/utils/common';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+/**
+ * Raw row of the results table
+ */
+interface HistoryRow {
+    id: number;
+    timestamp: string;
+    server: string;
+    server_name: string;
+    type: string;
+    report: string;
+}
+
+type SqlParams = Record<string, string | number>;
+
+let db: Database | null = null;
+
+/**
+ * Opens the history database, creating it on first use
+ * @returns Database instance
+ */
+function openHistory(): Database {
+    if (db) return db;
+
+    const dataDir = getDataDir();
+    mkdirSync(dataDir, { recursive: true });
+    const file = path.join(dataDir, 'history.db');
+    logger.debug(`[openHistory] Database: ${file}`);
+
+    db = new Database(file, { create: true });
+    db.run('PRAGMA journal_mode = WAL');
+    db.run(`CREATE TABLE IF NOT EXISTS results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        server TEXT NOT NULL,
+        server_name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        report TEXT NOT NULL
+    )`);
+    db.run('CREATE INDEX IF NOT EXISTS idx_results_server_type ON results (server, type, timestamp)');
+
+    return db;
+}
+
+/**
+ * Builds the WHERE clause of a history filter
+ * @param filter - History filter
+ * @returns SQL condition and its named parameters
+ */
+function buildWhere(filter: HistoryFilter): { where: string; params: SqlParams } {
+    const conditions: string[] = [];
+    const params: SqlParams = {};
+
+    if (filter.server) {
+        conditions.push('server = $server');
+        params.$server = filter.server;
+    }
+    if (filter.type) {
+        conditions.push('type = $type');
+        params.$type = filter.type;
+    }
+    if (filter.since) {
+        conditions.push('timestamp >= $since');
+        params.$since = filter.since.toISOString();
+    }
+    if (filter.until) {
+        conditions.push('timestamp < $until');
+        params.$until = filter.until.toISOString();
+    }
+
+    return {
+        where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+        params
+    };
+}
+
+/**
+ * Converts a database row to a history entry
+ * @param row - Raw row
+ * @returns History entry with dates revived
+ */
+function toEntry(row: HistoryRow): HistoryEntry {
+    const report = JSON.parse(row.report) as TestReport;
+    report.result.timestamp = new Date(report.result.timestamp);
+
+    return {
+        id: row.id,
+        timestamp: new Date(row.timestamp),
+        server: row.server,
+        serverName: row.server_name,
+        type: row.type as TestType,
+        report
+    };
+}
+
+/**
+ * Saves a test report to the history database
+ * @param report - Test report
+ * @returns ID of the stored entry
+ */
+export function saveResult(report: TestReport): number {
+    const { result, config } = report;
+    const changes = openHistory()
+        .query('INSERT INTO results (timestamp, server, server_name, type, report) VALUES ($timestamp, $server, $serverName, $type, $report)')
+        .run({
+            $timestamp: new Date(result.timestamp).toISOString(),
+            $server: result.testEndpoint,
+            $serverName: result.serverName,
+            $type: config.type || 'SingleFile',
+            $report: JSON.stringify(report)
+        });
+
+    return Number(changes.lastInsertRowid);
+}
+
+/**
+ * Lists stored test reports, newest first
+ * @param filter - History filter
+ * @returns Matching history entries
+ */
+export function listResults(filter: HistoryFilter = {}): HistoryEntry[] {
+    const { where, params } = buildWhere(filter);
+    const limit = filter.limit ? `LIMIT ${Math.max(1, Math.floor(filter.limit))}` : '';
+    const rows = openHistory()
+        .query(`SELECT * FROM results ${where} ORDER BY timestamp DESC, id DESC ${limit}`)
+        .all(params) as HistoryRow[];
+
+    return rows.map(toEntry);
+}
+
+/**
+ * Gets a stored test report by ID
+ * @param id - Entry ID
+ * @returns History entry, or null if not found
+ */
+export function getResult(id: number): HistoryEntry | null {
+    const row = openHistory()
+        .query('SELECT * FROM results WHERE id = $id')
+        .get({ $id: id }) as HistoryRow | null;
+
+    return row ? toEntry(row) : null;
+}
+
+/**
+ * Deletes stored test reports
+ * @param filter - History filter, entries matching it are deleted
+ * @param keep - Number of newest matching entries to keep
+ * @returns Number of deleted entries
+ */
+export function pruneResults(filter: HistoryFilter = {}, keep = 0): number {
+    const { where, params } = buildWhere(filter);
+    const changes = openHistory()
+        .query(`DELETE FROM results WHERE id IN (
+            SELECT id FROM results ${where} ORDER BY timestamp DESC, id DESC LIMIT -1 OFFSET $keep
+        )`)
+        .run({ ...params, $keep: Math.max(0, Math.floor(keep)) });
+
+    return changes.changes;
+}
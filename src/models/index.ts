@@ -1,11 +1,12 @@
-import type { TestConfigBase, DownloadTestConfig, SpeedStats, UploadTestConfig, TestType } from '@/types';
+import type { TestConfigBase, DownloadTestConfig, SpeedStats, UploadTestConfig, TestType, WorkerFn } from '@/types';
 import { DEFAULT_TEST_OPTIONS } from '@/constant/default';
 import { sleep, calculateStats } from '@/utils/common';
 import { formatSpeed } from '@/utils/format';
 import Logger from '@/utils/logger';
 import { downloadTestWorker } from '@/models/workers/download';
 import { testUploadWorker } from '@/models/workers/upload';
-import { checkUrlAvailability } from '@/models/workers/check';
+import { ooklaDownloadWorker, ooklaUploadWorker } from '@/models/workers/ookla';
+import { checkOoklaAvailability, checkUrlAvailability } from '@/models/workers/check';
 import { adjustThreadCount } from '@/models/algorithms/thread';
 import { attemptSpeedTest } from '@/models/algorithms/fallback';
 
@@ -47,6 +48,13 @@ const TEST_ENDPOINTS: TestEndpoints = {
         referrer: "https://speed.cloudflare.com/",
         fallbackUrls: []
     }),
+    // Ookla workers speak the command protocol over the server's WebSocket endpoint
+    Ookla: (baseUrl: string, testType: string) => ({
+        url: baseUrl,
+        referrer: '',
+        fallbackUrls: []
+    }),
+    // SingleFile gets the full URL, the upload target is passed instead of the server for uploads
     SingleFile: (baseUrl: string, testType: string) => ({
         url: baseUrl,
         referrer: '',
@@ -74,7 +82,8 @@ class SpeedTestError extends Error {
  */
 function getTestEndpoint(testEndpoint: string, config: TestConfigBase, testType: string): { url: string; referrer: string; fallbackUrls: string[] } {
     try {
-        const baseUrl = new URL(testEndpoint).origin;
+        const url = new URL(testEndpoint);
+        const baseUrl = config.type === 'SingleFile' ? url.href : url.origin;
         const testConfig = TEST_ENDPOINTS[config.type as string] || TEST_ENDPOINTS.SingleFile;
         return testConfig(baseUrl, testType);
     } catch (error) {
@@ -82,11 +91,25 @@ function getTestEndpoint(testEndpoint: string, config: TestConfigBase, testType:
     }
 }
 
+/**
+ * Checks if a test URL is available for the configured test type
+ * @param {string} url - The test URL
+ * @param {string} referrer - The referrer URL
+ * @param {TestConfigBase} config - Test configuration
+ * @param {'download' | 'upload'} testType - Type of speed test
+ * @returns {Promise<boolean>} Promise resolving to true if the URL is available
+ */
+function isUrlAvailable(url: string, referrer: string, config: UploadTestConfig, testType: 'download' | 'upload'): Promise<boolean> {
+    return config.type === 'Ookla'
+        ? checkOoklaAvailability(url)
+        : checkUrlAvailability(url, referrer, testType);
+}
+
 /**
  * Measures speed (download or upload) using multiple threads
  * @param {string} testEndpoint - The endpoint URL for the speed test
  * @param {Function} workerFn - Worker function that performs the actual speed test
- * @param {TestConfigBase} config - Test configuration
+ * @param {UploadTestConfig} config - Test configuration
  * @param {'download' | 'upload'} testType - Type of speed test
  * @returns {Promise<SpeedStats>} Promise resolving to speed test statistics
  * @throws {SpeedTestError} If an error occurs during the speed test
@@ -94,14 +117,9 @@ function getTestEndpoint(testEndpoint: string, config: TestConfigBase, testType:
 async function measureSpeed(
     testEndpoint: string,
     workerFn: (url: string, referrer: string, onProgress: (speed: number) => void, signal: AbortSignal, testType: TestType) => Promise<number>,
-    config: TestConfigBase,
+    config: UploadTestConfig,
     testType: 'download' | 'upload',
 ): Promise<SpeedStats> {
-    // SingleFile type is not supported for upload test
-    if (testType === 'upload' && config.type === 'SingleFile') {
-        throw new SpeedTestError('Upload test is not supported for SingleFile type');
-    }
-
     // Merge the default test options with the user-defined options
     const mergedConfig = { ...DEFAULT_TEST_OPTIONS, ...config };
     const {
@@ -130,7 +148,7 @@ async function measureSpeed(
     }
 
     // Pre-check URL availability
-    while (!(await checkUrlAvailability(currentUrl, referrer, testType))) {
+    while (!(await isUrlAvailable(currentUrl, referrer, mergedConfig, testType))) {
         if (urlIndex >= fallbackUrls.length) {
             throw new SpeedTestError('All URLs are unavailable');
         }
@@ -199,7 +217,7 @@ async function measureSpeed(
                     // Pre-check the next URL before switching
                     while (urlIndex < fallbackUrls.length) {
                         const nextUrl = fallbackUrls[urlIndex];
-                        if (await checkUrlAvailability(nextUrl, referrer, testType)) {
+                        if (await isUrlAvailable(nextUrl, referrer, mergedConfig, testType)) {
                             currentUrl = nextUrl;
                             urlIndex++;
                             continue;
@@ -240,7 +258,7 @@ async function measureDownload(
     config: DownloadTestConfig = {}
 ): Promise<SpeedStats> {
     try {
-        return await measureSpeed(testEndpoint, downloadTestWorker, config, 'download');
+        return await measureSpeed(testEndpoint, config.type === 'Ookla' ? ooklaDownloadWorker : downloadTestWorker, config, 'download');
     } catch (error) {
         logger.error(`[measureDownload] ${error}`);
         throw error;
@@ -249,7 +267,7 @@ async function measureDownload(
 
 /**
  * Measures upload speed to a specified endpoint
- * @param {string} testEndpoint - The endpoint URL for the upload test
+ * @param {string} testEndpoint - The endpoint URL for the upload test, the upload target for SingleFile type
  * @param {UploadTestConfig} config - Upload test configuration
  * @returns {Promise<SpeedStats>} Promise resolving to upload speed statistics
  * @throws {SpeedTestError} If an error occurs during the upload test
@@ -259,7 +277,10 @@ async function measureUpload(
     config: UploadTestConfig = {}
 ): Promise<SpeedStats> {
     try {
-        return await measureSpeed(testEndpoint, testUploadWorker, config, 'upload');
+        const workerFn: WorkerFn = config.type === 'Ookla'
+            ? ooklaUploadWorker
+            : (url, referrer, onProgress, signal, testType) => testUploadWorker(url, referrer, onProgress, signal, testType, config.uploadMethod);
+        return await measureSpeed(testEndpoint, workerFn, config, 'upload');
     } catch (error) {
         logger.error(`[measureUpload] ${error}`);
         throw error;
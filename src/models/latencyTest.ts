@@ -1,54 +1,49 @@
-import type { LatencyStats, TestType } from "../types";
-import { msToMicros, calculateStats, sleep, usToMs } from "../utils/common";
+import type { IcmpPacket, LatencyMethods, LatencyResult, TestType } from "../types";
+import { calculateLatencyStats, getUrlPort, sleep, usToMs } from "../utils/common";
 import Logger from '../utils/logger';
-import { promise as ping } from 'ping';
-import { type Dispatcher, fetch, type HeadersInit } from 'undici';
+import type { Dispatcher, HeadersInit } from 'undici';
 import WebSocket from 'ws';
 import { DEFAULT_FETCH_OPTIONS, DEFAULT_FETCH_HEADERS_OOKLA } from '../constant/fetch';
 import { isDebugMode } from '../utils/common';
 import net from 'node:net';
+import { OoklaClient } from './tools/ooklaClient';
+import { IcmpSession } from './tools/icmp';
+import { getLocalAddress, lookupAddress, networkFetch, prepareWebSocket } from './tools/network';
+import { calculateConnectionTiming, measureTimingSample, type TimingSample } from './connectionTiming';
 
 const logger = new Logger();
 
 /**
  * Measures ICMP (ping) latency for a given host
+ * Uses datagram ICMP sockets where permitted, the ping binary otherwise
  * @param {string} host - The target host URL
- * @param {number} [count=3] - Number of ping attempts
+ * @param {number} [count=3] - Number of echo requests, sent one after another
  * @returns {Promise<number>} Average latency in microseconds, or -1 if measurement fails
  */
-async function measureICMPLatency(host: string, count = 3): Promise<number> {
+export async function measureICMPLatency(host: string, count = 3): Promise<number> {
     if (!host) {
         logger.error('[measureICMPLatency] Invalid host');
         return -1;
     }
 
+    let session: IcmpSession;
     try {
-        const hostname = new URL(host).hostname;
-        let totalLatency = 0;
-        let successCount = 0;
-
-        const pingPromises = Array.from({ length: count }, async () => {
-            try {
-                const result = await ping.probe(hostname, {
-                    timeout: 2,
-                    min_reply: 1
-                });
-                if (result.alive && result.time) {
-                    totalLatency += msToMicros(Number(result.time));
-                    successCount++;
-                }
-            } catch (err) {
-                logger.error(`[measureICMPLatency] Ping error: ${err}`);
-            }
-        });
-
-        await Promise.all(pingPromises);
-
-        return successCount === 0 ? -1 : Math.round(totalLatency / successCount);
+        session = await IcmpSession.open(new URL(host).hostname);
     } catch (error) {
-        logger.error(`[measureICMPLatency] Invalid URL format: ${host}`);
+        logger.error(`[measureICMPLatency] Cannot resolve ${host}: ${error}`);
         return -1;
     }
+
+    try {
+        const rtts: number[] = [];
+        for (let i = 0; i < count; i++) {
+            const { rtt } = await session.echo();
+            if (rtt > 0) rtts.push(rtt);
+        }
+        return rtts.length === 0 ? -1 : Math.round(rtts.reduce((a, b) => a + b, 0) / rtts.length);
+    } finally {
+        session.close();
+    }
 }
 
 /**
@@ -56,9 +51,10 @@ async function measureICMPLatency(host: string, count = 3): Promise<number> {
  * Utilizes Node.js's native 'net' module for TCP connections.
  * @param {string} host - The target host URL.
  * @param {number} [samples=3] - Number of connection attempts.
+ * @param {object} [target] - Optional port and resolved address to connect to, the port defaults to the port of the URL scheme
  * @returns {Promise<number>} Average latency in microseconds, or -1 if measurement fails.
  */
-async function measureTCPLatency(host: string, samples = 3): Promise<number> {
+export async function measureTCPLatency(host: string, samples = 3, target: { port?: number; address?: string } = {}): Promise<number> {
     if (!host) {
         logger.error('[measureTCPLatency] Invalid host');
         return -1;
@@ -73,6 +69,10 @@ async function measureTCPLatency(host: string, samples = 3): Promise<number> {
     }
 
     const delays: number[] = [];
+    const port = target.port ?? getUrlPort(url);
+    // Connecting to a resolved address keeps the DNS lookup out of the connect time
+    const address = target.address ?? await resolveAddress(url.hostname, getUrlPort(url));
+    if (!address) return -1;
 
     const tcpMeasurementPromises = Array.from({ length: samples }, async () => {
         return new Promise<number>((resolve) => {
@@ -81,11 +81,11 @@ async function measureTCPLatency(host: string, samples = 3): Promise<number> {
 
             const timeout = setTimeout(() => {
                 socket.destroy();
-                logger.warn(`[measureTCPLatency] TCP connection to ${url.hostname}:${url.port || 80} timed out`);
+                logger.debug(`[measureTCPLatency] TCP connection to ${address}:${port} timed out`);
                 resolve(-1);
             }, 2000); // 2 seconds timeout
 
-            socket.connect(Number(url.port || 80), url.hostname, () => {
+            socket.connect({ port, host: address, localAddress: getLocalAddress(address) }, () => {
                 clearTimeout(timeout);
                 const end = process.hrtime.bigint();
                 const latency = Number(end - start) / 1000; // Convert nanoseconds to microseconds
@@ -95,7 +95,7 @@ async function measureTCPLatency(host: string, samples = 3): Promise<number> {
 
             socket.on('error', (err) => {
                 clearTimeout(timeout);
-                logger.error(`[measureTCPLatency] TCP connection error: ${err.message}`);
+                logger.debug(`[measureTCPLatency] TCP connection error: ${err.message}`);
                 resolve(-1);
             });
         });
@@ -125,7 +125,7 @@ async function measureHTTPLatencyH2(url: string, options: Dispatcher.RequestOpti
     const start = process.hrtime.bigint();
 
     try {
-        const response = await fetch(url, {
+        const response = await networkFetch(url, {
             ...options,
             signal: controller.signal,
             // @ts-ignore: undici supports 'httpVersion'
@@ -157,12 +157,18 @@ async function measureHTTPLatencyH2(url: string, options: Dispatcher.RequestOpti
  * @param {URL} url - The target URL
  * @returns {Promise<number>} Latency in microseconds, or -1 if connection fails
  */
-async function measureWebSocketLatency(url: URL): Promise<number> {
+export async function measureWebSocketLatency(url: URL): Promise<number> {
+    let target: Awaited<ReturnType<typeof prepareWebSocket>>;
+    try {
+        target = await prepareWebSocket(url.href.replace('http', 'ws'), { headers: DEFAULT_FETCH_HEADERS_OOKLA });
+    } catch (error) {
+        logger.debug(`[measureWebSocketLatency] ${error}`);
+        return -1;
+    }
+
     return new Promise((resolve) => {
         const start = process.hrtime.bigint();
-        const ws = new WebSocket(url.href.replace('http', 'ws'), {
-            headers: DEFAULT_FETCH_HEADERS_OOKLA
-        });
+        const ws = new WebSocket(target.url, target.options);
 
         const timeout = setTimeout(() => {
             ws.terminate();
@@ -185,13 +191,33 @@ async function measureWebSocketLatency(url: URL): Promise<number> {
     });
 }
 
+/**
+ * Measures latency with the PING command of the Ookla protocol
+ * Falls back to the WebSocket handshake time if the server does not answer PING
+ * @param {URL} url - The target URL
+ * @returns {Promise<number>} Latency in microseconds, or -1 if connection fails
+ */
+async function measureOoklaPingLatency(url: URL): Promise<number> {
+    let client: OoklaClient | null = null;
+    try {
+        client = await OoklaClient.connect(url.href);
+        await client.hello();
+        return Math.round(await client.ping());
+    } catch (error) {
+        logger.debug(`[measureOoklaPingLatency] PING failed, using WebSocket handshake: ${error}`);
+        return measureWebSocketLatency(url);
+    } finally {
+        client?.close();
+    }
+}
+
 /**
  * Measures HTTP latency for a given URL with different test types.
  * @param {URL} url - The target URL object.
  * @param {TestType} type - The type of speed test (Cloudflare, LibreSpeed, Ookla).
  * @returns {Promise<number>} Latency in microseconds, or -1 if measurement fails.
  */
-async function measureHTTPLatency(url: URL, type: TestType): Promise<number> {
+export async function measureHTTPLatency(url: URL, type: TestType): Promise<number> {
     if (!url || !(url instanceof URL)) {
         logger.error('[measureHTTPLatency] Invalid URL object');
         return -1;
@@ -226,7 +252,7 @@ async function measureHTTPLatency(url: URL, type: TestType): Promise<number> {
             };
             break;
         case 'Ookla':
-            return measureWebSocketLatency(url);
+            return measureOoklaPingLatency(url);
         default:
             testUrl = url.href;
             options = {
@@ -248,7 +274,7 @@ async function measureHTTPLatency(url: URL, type: TestType): Promise<number> {
     const start = process.hrtime.bigint();
 
     try {
-        const response = await fetch(testUrl, {
+        const response = await networkFetch(testUrl, {
             ...options,
             signal: controller.signal,
             // @ts-ignore: undici supports 'httpVersion'
@@ -272,20 +298,32 @@ async function measureHTTPLatency(url: URL, type: TestType): Promise<number> {
     }
 }
 
+/**
+ * Resolves a hostname like the connections of the speed test, in the configured address family
+ * @param {string} hostname - Hostname or IP address
+ * @param {number} port - Port of the test endpoint, selects the fixed address of the resolve option
+ * @returns {Promise<string | null>} Resolved address, or null if it cannot be resolved
+ */
+async function resolveAddress(hostname: string, port: number): Promise<string | null> {
+    try {
+        return (await lookupAddress(hostname, port)).address;
+    } catch (error) {
+        logger.debug(`[resolveAddress] ${hostname}: ${error}`);
+        return null;
+    }
+}
+
 /**
  * Performs a comprehensive latency measurement for a given test endpoint
- * Measures latency across ICMP, TCP, and HTTP protocols
+ * Measures latency across ICMP, TCP, and HTTP protocols, one probe per protocol and sample
  * @param {string} testEndpoint - The URL of the test endpoint
  * @param {TestType} type - The type of speed test (Cloudflare, LibreSpeed, Ookla)
- * @returns {Promise<{icmp: LatencyStats, tcp: LatencyStats, http: LatencyStats}>}
- * Latency statistics for ICMP, TCP, and HTTP protocols
+ * @param {LatencyMethods} [methods] - Protocols to measure, all enabled by default, connection timing only if enabled
+ * @param {number} [samples=10] - Number of samples per protocol, taken one after another for jitter
+ * @returns {Promise<LatencyResult>} Latency statistics for ICMP, TCP, and HTTP protocols, null for skipped protocols
  * @throws {Error} If the test endpoint is invalid or the test fails
  */
-export async function measureLatency(testEndpoint: string, type: TestType): Promise<{
-    icmp: LatencyStats;
-    tcp: LatencyStats;
-    http: LatencyStats;
-}> {
+export async function measureLatency(testEndpoint: string, type: TestType, methods: LatencyMethods = {}, samples = 10): Promise<LatencyResult> {
     if (!testEndpoint) {
         throw new Error('Test endpoint is required');
     }
@@ -297,49 +335,85 @@ export async function measureLatency(testEndpoint: string, type: TestType): Prom
         throw new Error(`Invalid URL format: ${testEndpoint}`);
     }
 
+    const { icmp: useIcmp = true, tcp: useTcp = true, http: useHttp = true, timing: useTiming = false } = methods;
+    const tcpPorts = methods.tcpPorts?.length ? methods.tcpPorts : [getUrlPort(url)];
     const host = url.origin;
-    const rounds = 5;
+    const interval = 200; // ms between samples
     const icmpSamples: number[] = [];
-    const tcpSamples: number[] = [];
+    const tcpPortSamples: number[][] = tcpPorts.map(() => []);
+    const tcpSamples = tcpPortSamples[0];
     const httpSamples: number[] = [];
+    const timingSamples: TimingSample[] = [];
 
     const latencySpinner = logger.create('latency', 'Measuring latency...');
     const updateInterval = setInterval(() => {
-        const icmpStats = calculateStats(icmpSamples);
-        const tcpStats = calculateStats(tcpSamples);
-        const httpStats = calculateStats(httpSamples);
+        const progress: string[] = [];
+        if (useIcmp && !icmpUnavailable) progress.push(`ICMP: ${usToMs(calculateLatencyStats(icmpSamples).avg).toFixed(2)}ms`);
+        if (useTcp) progress.push(`TCP: ${usToMs(calculateLatencyStats(tcpSamples).avg).toFixed(2)}ms`);
+        if (useHttp) progress.push(`HTTP: ${usToMs(calculateLatencyStats(httpSamples).avg).toFixed(2)}ms`);
 
-        latencySpinner.text = `Testing latency... ICMP: ${usToMs(icmpStats.avg).toFixed(2)}ms, TCP: ${usToMs(tcpStats.avg).toFixed(2)}ms, HTTP: ${usToMs(httpStats.avg).toFixed(2)}ms`;
+        latencySpinner.text = `Testing latency... (${httpSamples.length}/${samples}) ${progress.join(', ')}`;
     }, 1000);
 
+    let icmpSession: IcmpSession | null = null;
+    let icmpUnavailable: string | null = null;
+    const icmpPackets: IcmpPacket[] = [];
+
     try {
-        const measurementPromises = Array.from({ length: rounds }, async (_, i) => {
-            if (i > 0) await sleep(500); // Wait 500ms between rounds
+        // Probe the address the speed test connects to
+        const address = useTcp ? await resolveAddress(url.hostname, getUrlPort(url)) : null;
+        logger.debug(`[measureLatency] TCP probe target: ${address}, ports: ${tcpPorts.join(', ')}`);
+
+        if (useIcmp) {
+            icmpSession = await IcmpSession.open(url.hostname).catch((error: Error) => {
+                // Reported as unavailable, not as lost probes
+                logger.debug(`[measureLatency] ICMP unavailable: ${error}`);
+                icmpUnavailable = error.message;
+                return null;
+            });
+        }
 
-            const [icmp, tcp, http] = await Promise.all([
-                measureICMPLatency(host),
-                measureTCPLatency(host),
-                measureHTTPLatency(url, type)
+        // Samples are taken sequentially, so consecutive samples describe jitter over time
+        for (let i = 0; i < samples; i++) {
+            if (i > 0) await sleep(interval);
+
+            const [icmp, http, ...tcp] = await Promise.all([
+                icmpSession ? icmpSession.echo().then((packet) => {
+                    icmpPackets.push(packet);
+                    return packet.rtt;
+                }) : -1,
+                useHttp ? measureHTTPLatency(url, type) : -1,
+                ...tcpPorts.map(port => useTcp && address ? measureTCPLatency(host, 1, { port, address }) : -1)
             ]);
 
-            icmpSamples.push(icmp);
-            tcpSamples.push(tcp);
+            if (icmpSession) icmpSamples.push(icmp);
+            tcp.forEach((latency, index) => tcpPortSamples[index].push(latency));
             httpSamples.push(http);
-        });
 
-        await Promise.all(measurementPromises);
+            // Runs on its own, so the phases are not slowed down by the other probes
+            if (useTiming) timingSamples.push(await measureTimingSample(url, type));
+        }
     } catch (error) {
         latencySpinner.fail('Latency test failed');
         logger.error(`[measureLatency] Error: ${error}`);
         throw error;
     } finally {
         clearInterval(updateInterval);
+        icmpSession?.close();
         latencySpinner.succeed('Latency measurement completed');
     }
 
     return {
-        icmp: calculateStats(icmpSamples),
-        tcp: calculateStats(tcpSamples),
-        http: calculateStats(httpSamples)
+        icmp: icmpSession ? calculateLatencyStats(icmpSamples) : null,
+        ...(icmpSession ? {
+            icmpEcho: { method: icmpSession.method, address: icmpSession.address, packets: icmpPackets }
+        } : {}),
+        ...(icmpUnavailable ? { icmpUnavailable } : {}),
+        tcp: useTcp ? calculateLatencyStats(tcpSamples) : null,
+        http: useHttp ? calculateLatencyStats(httpSamples) : null,
+        ...(useTcp && tcpPorts.length > 1 ? {
+            tcpPorts: tcpPorts.map((port, index) => ({ port, stats: calculateLatencyStats(tcpPortSamples[index]) }))
+        } : {}),
+        ...(useTiming ? { timing: calculateConnectionTiming(timingSamples, url) } : {})
     };
 }
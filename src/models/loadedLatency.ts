@@ -0,0 +1,133 @@
+import type { BufferbloatGrade, LatencyStats, LoadedLatency, TestType } from '@/types';
+import { measureHTTPLatency, measureTCPLatency } from '@/models/latencyTest';
+import { calculateLatencyStats, msToMicros, sleep } from '@/utils/common';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+/**
+ * Pause between two probes in milliseconds
+ */
+const PROBE_INTERVAL = 250;
+
+/**
+ * Number of idle probes if the latency test did not measure the probe protocol
+ */
+const IDLE_SAMPLES = 5;
+
+/**
+ * Upper bounds of the latency increase in milliseconds per grade, similar to the Waveform bufferbloat test
+ */
+const GRADE_THRESHOLDS: [BufferbloatGrade, number][] = [
+    ['A', 30],
+    ['B', 60],
+    ['C', 200],
+    ['D', 400]
+];
+
+/**
+ * Background latency probe running while a transfer saturates the link
+ * @interface LatencyProbe
+ */
+export interface LatencyProbe {
+    /**
+     * Stops probing, a probe still in flight is discarded
+     * @returns Samples in microseconds in measurement order, failures as -1
+     */
+    stop(): number[];
+}
+
+/**
+ * Sends a single latency probe
+ * @param url - Test endpoint
+ * @param type - Test type
+ * @param protocol - Probe protocol
+ * @param port - TCP port, defaults to the port of the URL scheme
+ * @returns Latency in microseconds, or -1 if the probe failed
+ */
+function probe(url: URL, type: TestType, protocol: LoadedLatency['protocol'], port?: number): Promise<number> {
+    return protocol === 'tcp' ? measureTCPLatency(url.origin, 1, { port }) : measureHTTPLatency(url, type);
+}
+
+/**
+ * Starts probing latency one probe after another until stopped
+ * @param testEndpoint - Test endpoint URL
+ * @param type - Test type
+ * @param protocol - Probe protocol
+ * @param port - TCP port, defaults to the port of the URL scheme
+ * @returns Running probe
+ */
+export function startLatencyProbe(testEndpoint: string, type: TestType, protocol: LoadedLatency['protocol'], port?: number): LatencyProbe {
+    const url = new URL(testEndpoint);
+    const samples: number[] = [];
+    let stopped = false;
+
+    const run = async () => {
+        while (!stopped) {
+            const latency = await probe(url, type, protocol, port);
+            if (stopped) break;
+            samples.push(latency);
+            await sleep(PROBE_INTERVAL);
+        }
+    };
+    run().catch(error => logger.debug(`[startLatencyProbe] Error: ${error}`));
+
+    return {
+        stop() {
+            stopped = true;
+            return [...samples];
+        }
+    };
+}
+
+/**
+ * Measures the idle latency of the probe protocol
+ * @param testEndpoint - Test endpoint URL
+ * @param type - Test type
+ * @param protocol - Probe protocol
+ * @param port - TCP port, defaults to the port of the URL scheme
+ * @returns Idle latency statistics
+ */
+export async function measureIdleLatency(testEndpoint: string, type: TestType, protocol: LoadedLatency['protocol'], port?: number): Promise<LatencyStats> {
+    const url = new URL(testEndpoint);
+    const samples: number[] = [];
+    for (let i = 0; i < IDLE_SAMPLES; i++) {
+        if (i > 0) await sleep(PROBE_INTERVAL);
+        samples.push(await probe(url, type, protocol, port));
+    }
+    return calculateLatencyStats(samples);
+}
+
+/**
+ * Grades the latency increase under load
+ * @param increase - Increase of the median latency in microseconds
+ * @returns Bufferbloat grade, A for less than 30ms up to F for 400ms and more
+ */
+export function gradeBufferbloat(increase: number): BufferbloatGrade {
+    for (const [grade, threshold] of GRADE_THRESHOLDS) {
+        if (increase < msToMicros(threshold)) return grade;
+    }
+    return 'F';
+}
+
+/**
+ * Summarizes the samples of a latency probe against the idle latency
+ * @param protocol - Probe protocol
+ * @param idle - Idle latency statistics
+ * @param samples - Probe samples in microseconds, failures as -1
+ * @returns Latency under load
+ */
+export function summarizeLoadedLatency(protocol: LoadedLatency['protocol'], idle: LatencyStats, samples: number[]): LoadedLatency {
+    const loaded = calculateLatencyStats(samples);
+    const known = idle.received > 0 && loaded.received > 0;
+    // A faster path under load is no bufferbloat
+    const increase = known ? Math.max(0, loaded.median - idle.median) : -1;
+
+    return {
+        protocol,
+        idle: idle.received > 0 ? idle.median : -1,
+        loaded,
+        increase,
+        grade: known ? gradeBufferbloat(increase) : null
+    };
+}
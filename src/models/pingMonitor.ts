@@ -0,0 +1,97 @@
+import type { LatencyMethods, PingProtocol, PingSample } from '@/types';
+import { measureHTTPLatency, measureTCPLatency } from '@/models/latencyTest';
+import { IcmpSession } from '@/models/tools/icmp';
+import { lookupAddress } from '@/models/tools/network';
+import net from 'node:net';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+/**
+ * Longest wait for a single probe in milliseconds
+ */
+const MAX_PROBE_TIMEOUT = 2000;
+
+/**
+ * Target of the ping subcommand with its resolved address and ICMP session
+ * @interface PingTarget
+ */
+export interface PingTarget {
+    /** Target as given on the command line */
+    name: string;
+    url: URL;
+    /** Resolved address, probed by TCP */
+    address: string;
+    icmp: IcmpSession | null;
+}
+
+/**
+ * Parses a ping target, hostnames and IP addresses without scheme are treated as HTTPS
+ * @param target - URL or hostname
+ * @returns Target URL
+ * @throws {Error} If the target is not a valid URL or hostname
+ */
+export function parsePingTarget(target: string): URL {
+    try {
+        if (net.isIPv6(target)) return new URL(`https://[${target}]`);
+        return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(target) ? target : `https://${target}`);
+    } catch {
+        throw new Error(`Invalid ping target: ${target}`);
+    }
+}
+
+/**
+ * Resolves the targets of the ping subcommand and opens their ICMP sessions
+ * @param targets - URLs or hostnames
+ * @param methods - Protocols to probe
+ * @returns Ping targets
+ * @throws {Error} If a target is invalid
+ */
+export async function openPingTargets(targets: string[], methods: LatencyMethods): Promise<PingTarget[]> {
+    return Promise.all(targets.map(async (name) => {
+        const url = parsePingTarget(name);
+        const hostname = url.hostname.replace(/^\[|\]$/g, '');
+        const address = await lookupAddress(hostname).then(result => result.address, () => hostname);
+        const icmp = methods.icmp === false ? null : await IcmpSession.open(hostname).catch((error) => {
+            logger.debug(`[openPingTargets] ICMP unavailable for ${name}: ${error}`);
+            return null;
+        });
+        return { name, url, address, icmp };
+    }));
+}
+
+/**
+ * Closes the ICMP sessions of ping targets
+ * @param targets - Ping targets
+ */
+export function closePingTargets(targets: PingTarget[]): void {
+    for (const target of targets) target.icmp?.close();
+}
+
+/**
+ * Probes all targets once with every enabled protocol, all probes run concurrently
+ * @param targets - Ping targets
+ * @param methods - Protocols to probe
+ * @param seq - Probe round
+ * @param timeout - Timeout of a probe in milliseconds
+ * @returns Samples of the round
+ */
+export async function probePingTargets(targets: PingTarget[], methods: LatencyMethods, seq: number, timeout: number): Promise<PingSample[]> {
+    const { icmp = true, tcp = true, http = true } = methods;
+    const probes: Promise<PingSample>[] = [];
+
+    const add = (target: PingTarget, protocol: PingProtocol, probe: () => Promise<number>) => {
+        const timestamp = new Date();
+        probes.push(probe().then(rtt => ({ timestamp, target: target.name, protocol, seq, rtt: rtt > 0 ? rtt : -1 })));
+    };
+
+    for (const target of targets) {
+        if (icmp) {
+            add(target, 'icmp', async () => target.icmp ? (await target.icmp.echo(Math.min(timeout, MAX_PROBE_TIMEOUT))).rtt : -1);
+        }
+        if (tcp) add(target, 'tcp', () => measureTCPLatency(target.url.origin, 1, { address: target.address }));
+        if (http) add(target, 'http', () => measureHTTPLatency(target.url, 'SingleFile'));
+    }
+
+    return Promise.all(probes);
+}
@@ -0,0 +1,202 @@
+import type { Server } from 'bun';
+import type { ServeOptions } from '@/types';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+/**
+ * Shared payload chunk of download responses
+ */
+const PAYLOAD_CHUNK = new Uint8Array(64 * 1024);
+
+/**
+ * Path prefixes LibreSpeed clients try, see TEST_ENDPOINTS.LibreSpeed
+ */
+const LIBRESPEED_PREFIXES = ['', '/backend', '/speed'];
+
+/**
+ * Default number of 1MB chunks of garbage.php, same as LibreSpeed
+ */
+const LIBRESPEED_DEFAULT_CHUNKS = 4;
+
+const COMMON_HEADERS: Record<string, string> = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+    'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
+    'Pragma': 'no-cache'
+};
+
+/**
+ * Creates a stream of a number of zero bytes without allocating them at once
+ * @param bytes - Number of bytes
+ * @returns Readable stream
+ */
+function createPayload(bytes: number): ReadableStream<Uint8Array> {
+    let remaining = bytes;
+    return new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (remaining <= 0) {
+                controller.close();
+                return;
+            }
+            const size = Math.min(remaining, PAYLOAD_CHUNK.length);
+            controller.enqueue(PAYLOAD_CHUNK.subarray(0, size));
+            remaining -= size;
+        }
+    });
+}
+
+/**
+ * Creates a download response
+ * @param bytes - Number of bytes
+ * @returns Response streaming the payload
+ */
+function downloadResponse(bytes: number): Response {
+    return new Response(createPayload(bytes), {
+        headers: {
+            ...COMMON_HEADERS,
+            'Content-Type': 'application/octet-stream',
+            'Content-Length': String(bytes)
+        }
+    });
+}
+
+/**
+ * Reads and discards a request body
+ * @param request - Incoming request
+ * @returns Number of received bytes
+ */
+async function drainBody(request: Request): Promise<number> {
+    if (!request.body) return 0;
+
+    let bytes = 0;
+    const reader = request.body.getReader();
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        bytes += value.length;
+    }
+    return bytes;
+}
+
+/**
+ * Gets the client IP address of a request
+ * @param request - Incoming request
+ * @param server - Bun server
+ * @returns Client IP address, IPv4-mapped addresses are unwrapped
+ */
+function getClientIp(request: Request, server: Server): string {
+    const address = server.requestIP(request)?.address || '';
+    return address.replace(/^::ffff:/, '');
+}
+
+/**
+ * Builds a Cloudflare style /cdn-cgi/trace response body
+ * @param request - Incoming request
+ * @param url - Request URL
+ * @param ip - Client IP address
+ * @returns Trace lines
+ */
+function formatTrace(request: Request, url: URL, ip: string): string {
+    const lines = {
+        fl: 'aqua-speed',
+        h: url.host,
+        ip,
+        ts: (Date.now() / 1000).toFixed(3),
+        visit_scheme: url.protocol.replace(':', ''),
+        uag: request.headers.get('user-agent') || '',
+        colo: 'LOCAL',
+        http: 'http/1.1',
+        loc: 'XX',
+        tls: 'off',
+        sni: 'off',
+        warp: 'off'
+    };
+    return `${Object.entries(lines).map(([key, value]) => `${key}=${value}`).join('\n')}\n`;
+}
+
+/**
+ * Parses a byte count query parameter
+ * @param value - Parameter value, may carry trailing garbage like "100?r=0.1"
+ * @param fallback - Value if the parameter is missing or invalid
+ * @param max - Upper limit
+ * @returns Byte count
+ */
+function parseCount(value: string | null, fallback: number, max: number): number {
+    const count = Number.parseInt(value ?? '', 10);
+    return Math.min(max, Number.isFinite(count) && count >= 0 ? count : fallback);
+}
+
+/**
+ * Handles a request of the speed test server
+ * @param request - Incoming request
+ * @param server - Bun server
+ * @param options - Server options
+ * @returns Response
+ */
+async function handleRequest(request: Request, server: Server, options: ServeOptions): Promise<Response> {
+    const url = new URL(request.url);
+    const ip = getClientIp(request, server);
+    logger.debug(`[serve] ${ip} ${request.method} ${url.pathname}${url.search}`);
+
+    if (request.method === 'OPTIONS') {
+        return new Response(null, { status: 204, headers: COMMON_HEADERS });
+    }
+
+    // Cloudflare endpoints
+    switch (url.pathname) {
+        case '/__down':
+            return downloadResponse(parseCount(url.searchParams.get('bytes'), 0, options.maxBytes));
+        case '/__up':
+            await drainBody(request);
+            return new Response('', { headers: COMMON_HEADERS });
+        case '/cdn-cgi/trace':
+            return new Response(formatTrace(request, url, ip), {
+                headers: { ...COMMON_HEADERS, 'Content-Type': 'text/plain' }
+            });
+    }
+
+    // LibreSpeed endpoints
+    for (const prefix of LIBRESPEED_PREFIXES) {
+        switch (url.pathname) {
+            case `${prefix}/garbage.php`: {
+                const chunks = parseCount(url.searchParams.get('ckSize'), LIBRESPEED_DEFAULT_CHUNKS, 1024);
+                return downloadResponse(Math.min(options.maxBytes, chunks * 1024 * 1024));
+            }
+            case `${prefix}/empty.php`:
+                await drainBody(request);
+                return new Response('', { headers: { ...COMMON_HEADERS, 'Connection': 'keep-alive' } });
+            case `${prefix}/getIP.php`:
+                return Response.json({ processedString: ip, rawIspInfo: '' }, { headers: COMMON_HEADERS });
+        }
+    }
+
+    if (url.pathname === '/') {
+        return new Response('aqua-speed test server\n', {
+            headers: { ...COMMON_HEADERS, 'Content-Type': 'text/plain' }
+        });
+    }
+
+    return new Response('Not Found\n', { status: 404, headers: COMMON_HEADERS });
+}
+
+/**
+ * Starts a speed test server speaking the Cloudflare and LibreSpeed endpoints
+ * @param options - Server options
+ * @returns Running Bun server
+ * @throws {Error} If the server cannot listen on the given address
+ */
+export function startSpeedTestServer(options: ServeOptions): Server {
+    return Bun.serve({
+        hostname: options.host,
+        port: options.port,
+        // Uploads are streamed and discarded, do not cap their size
+        maxRequestBodySize: Number.MAX_SAFE_INTEGER,
+        fetch: (request, server) => handleRequest(request, server, options),
+        error: (error) => {
+            logger.error(`[serve] ${error.message}`);
+            return new Response('Internal Server Error\n', { status: 500, headers: COMMON_HEADERS });
+        }
+    });
+}
@@ -1,4 +1,5 @@
 import type { ColoResult } from '@/types';
+import { networkFetch } from '@/models/tools/network';
 
 /**
  * Get Cloudflare CDN Colo Info
@@ -11,7 +12,7 @@ export async function getCloudflareColoInfo(url: string): Promise<ColoResult | n
         const origin = new URL(url).origin;
         const cdnCgi = `${origin}/cdn-cgi/trace`;
 
-        const response = await fetch(cdnCgi, {
+        const response = await networkFetch(cdnCgi, {
             method: 'GET',
             headers: {
                 'Accept': 'text/plain',
@@ -0,0 +1,169 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { getTlsSettings } from '@/models/tools/network';
+
+/**
+ * Timeout of a DNS-over-TLS query in milliseconds
+ */
+const QUERY_TIMEOUT = 5000;
+
+/**
+ * Port of DNS over TLS (RFC 7858)
+ */
+const DOT_PORT = 853;
+
+// DNS record types and class
+const RECORD_TYPES = { A: 1, AAAA: 28 };
+const CLASS_IN = 1;
+
+/**
+ * DNS-over-TLS server
+ * @interface DoTServer
+ */
+export interface DoTServer {
+    name: string;
+    address: string;
+    /** Name the certificate of the server is verified against */
+    servername: string;
+}
+
+/**
+ * Encodes a DNS query message (RFC 1035) with recursion desired
+ * @param id - Message ID
+ * @param hostname - Queried name
+ * @param type - Record type
+ * @returns Query message
+ */
+export function encodeQuery(id: number, hostname: string, type: 'A' | 'AAAA'): Uint8Array {
+    const labels = hostname.replace(/\.$/, '').split('.').map(label => new TextEncoder().encode(label));
+    const message = new Uint8Array(12 + labels.reduce((length, label) => length + label.length + 1, 0) + 5);
+    const view = new DataView(message.buffer);
+    view.setUint16(0, id);
+    // Flags: standard query, recursion desired
+    view.setUint16(2, 0x0100);
+    // One question
+    view.setUint16(4, 1);
+
+    let offset = 12;
+    for (const label of labels) {
+        message[offset++] = label.length;
+        message.set(label, offset);
+        offset += label.length;
+    }
+    message[offset++] = 0;
+    view.setUint16(offset, RECORD_TYPES[type]);
+    view.setUint16(offset + 2, CLASS_IN);
+    return message;
+}
+
+/**
+ * Skips a possibly compressed name of a DNS message
+ * @param message - DNS message
+ * @param offset - Offset of the name
+ * @returns Offset after the name
+ */
+function skipName(message: Uint8Array, offset: number): number {
+    let position = offset;
+    while (position < message.length) {
+        const length = message[position];
+        if (length === 0) return position + 1;
+        // A compression pointer ends the name
+        if ((length & 0xc0) === 0xc0) return position + 2;
+        position += length + 1;
+    }
+    throw new Error('Truncated DNS response');
+}
+
+/**
+ * Formats the address of an A or AAAA record
+ * @param data - Record data
+ * @returns IP address
+ */
+function formatAddress(data: Uint8Array): string {
+    if (data.length === 4) return data.join('.');
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const groups = Array.from({ length: 8 }, (_, i) => view.getUint16(i * 2).toString(16));
+    // Normalized by the URL parser, which also shortens the longest run of zero groups
+    return new URL(`http://[${groups.join(':')}]`).hostname.slice(1, -1);
+}
+
+/**
+ * Decodes the addresses of a DNS response message
+ * @param message - Response message
+ * @param id - ID of the query
+ * @param type - Queried record type
+ * @returns Addresses of the answer records of the queried type
+ * @throws {Error} If the response does not match the query or reports an error
+ */
+export function decodeAnswers(message: Uint8Array, id: number, type: 'A' | 'AAAA'): string[] {
+    const view = new DataView(message.buffer, message.byteOffset, message.byteLength);
+    if (message.length < 12 || view.getUint16(0) !== id) throw new Error('Invalid DNS response');
+    const rcode = view.getUint16(2) & 0x0f;
+    // NXDOMAIN is an empty answer, not a failure of the resolver
+    if (rcode === 3) return [];
+    if (rcode !== 0) throw new Error(`DNS server returned error code ${rcode}`);
+
+    let offset = 12;
+    for (let i = 0; i < view.getUint16(4); i++) offset = skipName(message, offset) + 4;
+
+    const addresses: string[] = [];
+    for (let i = 0; i < view.getUint16(6); i++) {
+        offset = skipName(message, offset);
+        const recordType = view.getUint16(offset);
+        const length = view.getUint16(offset + 8);
+        offset += 10;
+        if (recordType === RECORD_TYPES[type]) addresses.push(formatAddress(message.subarray(offset, offset + length)));
+        offset += length;
+    }
+    return addresses;
+}
+
+/**
+ * Resolves a hostname with a DNS-over-TLS server (RFC 7858)
+ * @param server - DNS-over-TLS server
+ * @param hostname - Queried name
+ * @param type - Record type
+ * @returns Addresses of the answer
+ * @throws {Error} If the server cannot be reached or the query fails
+ */
+export function queryDoT(server: DoTServer, hostname: string, type: 'A' | 'AAAA'): Promise<string[]> {
+    const id = Math.floor(Math.random() * 0x10000);
+    const query = encodeQuery(id, hostname, type);
+
+    return new Promise((resolve, reject) => {
+        const socket = tls.connect({
+            ...getTlsSettings(),
+            host: server.address,
+            port: DOT_PORT,
+            servername: net.isIP(server.servername) ? undefined : server.servername
+        });
+        socket.setTimeout(QUERY_TIMEOUT, () => socket.destroy(new Error(`DNS-over-TLS query to ${server.name} timed out`)));
+
+        let buffer: Uint8Array = new Uint8Array(0);
+        socket.once('secureConnect', () => {
+            // Messages are prefixed with their length over TCP
+            const framed = new Uint8Array(query.length + 2);
+            new DataView(framed.buffer).setUint16(0, query.length);
+            framed.set(query, 2);
+            socket.write(framed);
+        });
+        socket.on('data', (chunk: Uint8Array) => {
+            const joined = new Uint8Array(buffer.length + chunk.length);
+            joined.set(buffer);
+            joined.set(chunk, buffer.length);
+            buffer = joined;
+            if (buffer.length < 2) return;
+            const length = new DataView(buffer.buffer).getUint16(0);
+            if (buffer.length < length + 2) return;
+
+            socket.end();
+            try {
+                resolve(decodeAnswers(buffer.subarray(2, length + 2), id, type));
+            } catch (error) {
+                reject(error);
+            }
+        });
+        socket.once('error', reject);
+        socket.once('close', () => reject(new Error(`${server.name} closed the connection without response`)));
+    });
+}
@@ -1,5 +1,9 @@
 import dns from 'node:dns';
 import { promisify } from 'node:util';
+import type { DnsLookup, IpFamily } from '@/types';
+import { type DoTServer, queryDoT } from '@/models/tools/dnsOverTls';
+import { getNetworkOptions, getResolveOverride, proxyFetch } from '@/models/tools/network';
+import { getUrlPort, isValidUrl } from '@/utils/common';
 import Logger from '@/utils/logger';
 import psl from 'psl';
 import bogon from 'bogon';
@@ -11,6 +15,32 @@ const resolve6Async = promisify(dns.resolve6);
 
 interface DnsResult {
     ip?: string;
+    /** All valid addresses of the family ip was resolved in, ip first */
+    ips?: string[];
+    /** Resolver that answered */
+    resolver?: string;
+    /** Lookup time in microseconds */
+    time?: number;
+}
+
+/**
+ * DNS resolution settings
+ * @interface DnsOptions
+ */
+export interface DnsOptions {
+    /** system, doh, dot or the IP address of a DNS server, system DNS with DoH fallback if not set */
+    strategy?: string;
+    /** DoH endpoints with a JSON API, replacing the default providers */
+    doh?: string[];
+}
+
+/**
+ * Answer of a resolution strategy
+ * @interface StrategyAnswer
+ */
+interface StrategyAnswer {
+    addresses: string[];
+    resolver: string;
 }
 
 type PrefType = 4 | 6 | null;
@@ -37,7 +67,7 @@ const isTypeMatch = (answer: DoHAnswer, type: 'A' | 'AAAA'): boolean => {
 
 const fetchDoH = async (url: string, type: 'A' | 'AAAA', dohUrl: string): Promise<string[]> => {
     try {
-        const response = await fetch(`${dohUrl}?name=${encodeURIComponent(url)}&type=${type}`, {
+        const response = await proxyFetch(`${dohUrl}?name=${encodeURIComponent(url)}&type=${type}`, {
             headers: {
                 'accept': 'application/dns-json',
             },
@@ -47,7 +77,7 @@ const fetchDoH = async (url: string, type: 'A' | 'AAAA', dohUrl: string): Promis
             throw new Error(`DoH request failed with status ${response.status}`);
         }
 
-        const data = await response.json();
+        const data = await response.json() as { Answer?: DoHAnswer[] };
 
         if (!data.Answer) {
             return [];
@@ -56,7 +86,7 @@ const fetchDoH = async (url: string, type: 'A' | 'AAAA', dohUrl: string): Promis
         return data.Answer
             .filter((answer: DoHAnswer) => isTypeMatch(answer, type))
             .map((answer: DoHAnswer) => 'data' in answer ? answer.data : answer.ip)
-            .filter(Boolean);
+            .filter((address): address is string => Boolean(address));
     } catch (error) {
         console.warn(`DoH fetch failed: ${(error as Error).message}`);
         return [];
@@ -79,17 +109,127 @@ const aliProvider: DoHProvider = {
     },
 };
 
-const providers: DoHProvider[] = [cloudflareProvider, aliProvider];
+const DEFAULT_PROVIDERS: DoHProvider[] = [cloudflareProvider, aliProvider];
 
-const selectValidIPv4 = (ips: string[]): string | null => {
-    const valid = ips.filter(ip => ip && ip !== '0.0.0.0' && ip !== '127.0.0.1' && !bogon(ip));
-    return valid.length > 0 ? valid[0] : null;
-};
+const DOT_SERVERS: DoTServer[] = [
+    { name: 'Cloudflare 1.1.1.1 (DoT)', address: '1.1.1.1', servername: 'cloudflare-dns.com' },
+    { name: 'Alibaba Public DNS (DoT)', address: '223.5.5.5', servername: 'dns.alidns.com' }
+];
 
-const selectValidIPv6 = (ips: string[]): string | null => {
-    const valid = ips.filter(ip => ip && !bogon(ip));
-    return valid.length > 0 ? valid[0] : null;
-};
+let providers: DoHProvider[] = DEFAULT_PROVIDERS;
+
+/**
+ * Resolution strategy of the test, null for the default of system DNS with DoH fallback
+ */
+let strategy: string | null = null;
+
+/**
+ * Resolver of a DNS server strategy
+ */
+let serverResolver: dns.promises.Resolver | null = null;
+
+/**
+ * Microseconds elapsed since a start time
+ * @param start - Start time of process.hrtime.bigint()
+ * @returns Elapsed time in microseconds
+ */
+const elapsed = (start: bigint): number => Number(process.hrtime.bigint() - start) / 1000;
+
+/**
+ * Sets the resolution strategy and DoH endpoints of the following lookups
+ * @param options - DNS options
+ * @throws {Error} If the strategy or a DoH endpoint is invalid
+ */
+export function configureDns(options: DnsOptions): void {
+    providers = options.doh?.length
+        ? options.doh.map(endpoint => {
+            if (!isValidUrl(endpoint) || new URL(endpoint).protocol !== 'https:') {
+                throw new Error(`Invalid DoH endpoint: ${endpoint}`);
+            }
+            return {
+                name: `DoH ${new URL(endpoint).host}`,
+                resolve: (url: string, type: 'A' | 'AAAA') => fetchDoH(url, type, endpoint)
+            };
+        })
+        : DEFAULT_PROVIDERS;
+
+    strategy = options.strategy ?? null;
+    serverResolver = null;
+    if (strategy && !['system', 'doh', 'dot'].includes(strategy)) {
+        serverResolver = new dns.promises.Resolver({ timeout: 5000, tries: 2 });
+        try {
+            serverResolver.setServers([strategy]);
+        } catch {
+            throw new Error(`Invalid DNS resolver ${strategy}, options: system, doh, dot or the IP address of a DNS server`);
+        }
+    }
+}
+
+/**
+ * Gets the resolution strategy
+ * @returns Strategy, or null for the default of system DNS with DoH fallback
+ */
+export function getDnsStrategy(): string | null {
+    return strategy;
+}
+
+/**
+ * Resolves a hostname in one address family with the configured strategy
+ * @param hostname - Hostname
+ * @param family - Address family
+ * @returns Addresses and the resolver that answered
+ * @throws {Error} If no resolver answered
+ */
+async function queryStrategy(hostname: string, family: IpFamily): Promise<StrategyAnswer> {
+    const type = family === 4 ? 'A' : 'AAAA';
+
+    if (serverResolver) {
+        const addresses = family === 4 ? await serverResolver.resolve4(hostname) : await serverResolver.resolve6(hostname);
+        return { addresses, resolver: `DNS ${serverResolver.getServers()[0]}` };
+    }
+    if (strategy === 'system') {
+        const addresses = family === 4 ? await resolve4Async(hostname) : await resolve6Async(hostname);
+        return { addresses, resolver: 'System DNS' };
+    }
+
+    // DoH and DoT try their resolvers in order, the first answer wins
+    const resolvers = strategy === 'dot'
+        ? DOT_SERVERS.map(server => ({ name: server.name, resolve: () => queryDoT(server, hostname, type) }))
+        : providers.map(provider => ({ name: provider.name, resolve: () => provider.resolve(hostname, type) }));
+    for (const resolver of resolvers) {
+        try {
+            const addresses = await resolver.resolve();
+            if (addresses.length > 0) return { addresses, resolver: resolver.name };
+        } catch (error) {
+            logger.debug(`[Resolve DNS] ${resolver.name} failed: ${(error as Error).message}`);
+        }
+    }
+    throw new Error(`No ${strategy === 'dot' ? 'DNS-over-TLS' : 'DoH'} resolver answered for ${hostname}`);
+}
+
+/**
+ * Resolves a hostname for a test connection with the configured strategy
+ * @param hostname - Hostname
+ * @param family - Address family, IPv4 before IPv6 if not set
+ * @returns First address and its family
+ * @throws {Error} If the host has no address
+ */
+export async function lookupHost(hostname: string, family?: IpFamily): Promise<{ address: string; family: IpFamily }> {
+    let lastError: Error | null = null;
+    for (const candidate of family ? [family] : [4, 6] as const) {
+        try {
+            const { addresses } = await queryStrategy(hostname, candidate);
+            if (addresses.length > 0) return { address: addresses[0], family: candidate };
+        } catch (error) {
+            lastError = error as Error;
+        }
+    }
+    throw lastError ?? new Error(`${hostname} has no address`);
+}
+
+const filterValidIPv4 = (ips: string[]): string[] => [...new Set(ips.filter(ip => ip && ip !== '0.0.0.0' && ip !== '127.0.0.1' && !bogon(ip)))];
+
+const filterValidIPv6 = (ips: string[]): string[] => [...new Set(ips.filter(ip => ip && !bogon(ip)))];
 
 /**
  * Attempts to resolve DNS for a given URL, prioritizing the specified IP preference.
@@ -105,11 +245,37 @@ export async function resolveDns(url: string, pref: PrefType = null): Promise<Dn
 
     logger.debug(`[Resolve DNS] Domain: ${realDomain}, Preference: ${pref}`);
 
+    const override = getResolveOverride(realDomain, getUrlPort(new URL(url)));
+    if (override) {
+        logger.debug(`[Resolve DNS] ${realDomain} fixed to ${override}`);
+        return { ip: override, ips: [override], resolver: '--resolve', time: 0 };
+    }
+
     if (!psl.isValid(realDomain)) {
         logger.debug(`[Resolve DNS] ${realDomain} is not a valid domain.`);
         return result;
     }
 
+    const start = process.hrtime.bigint();
+    const answer = (ips: string[], resolver: string): DnsResult => {
+        logger.debug(`[Resolve DNS] Resolved with ${resolver}: ${ips.join(', ')}`);
+        return { ip: ips[0], ips, resolver, time: elapsed(start) };
+    };
+
+    if (strategy) {
+        for (const family of pref ? [pref] : [4, 6] as const) {
+            try {
+                const { addresses, resolver } = await queryStrategy(realDomain, family);
+                const valid = family === 4 ? filterValidIPv4(addresses) : filterValidIPv6(addresses);
+                if (valid.length > 0) return answer(valid, resolver);
+            } catch (error) {
+                console.warn(`IPv${family} DNS resolution failed: ${(error as Error).message}`);
+            }
+        }
+        logger.debug(`[Resolve DNS] No valid IP found for ${realDomain}.`);
+        return result;
+    }
+
     // Helper function to attempt resolving with system DNS for a specific IP version.
     const attemptSystemDns = async (ipVersion: 4 | 6): Promise<string[]> => {
         try {
@@ -125,6 +291,7 @@ export async function resolveDns(url: string, pref: PrefType = null): Promise<Dn
     };
 
     // Helper function to attempt resolving with DoH providers for a specific IP version.
+    let dohProvider = 'DoH';
     const attemptDoH = async (ipVersion: 4 | 6): Promise<string[]> => {
         const type = ipVersion === 4 ? 'A' : 'AAAA';
         let resolvedIps: string[] = [];
@@ -134,7 +301,7 @@ export async function resolveDns(url: string, pref: PrefType = null): Promise<Dn
                 resolvedIps = resolvedIps.concat(ips);
                 // Resolve successfully with the first provider, then break.
                 if (resolvedIps.length > 0) {
-                    logger.debug(`[Resolve DNS] Resolved IPv${ipVersion} with DoH provider: ${provider.name}`);
+                    dohProvider = provider.name;
                     break;
                 }
             } catch (error) {
@@ -148,20 +315,17 @@ export async function resolveDns(url: string, pref: PrefType = null): Promise<Dn
     if (pref === 4 || pref === null) {
         // Try system DNS for IPv4.
         const ipv4sFromSystem = await attemptSystemDns(4);
-        const validIPv4 = selectValidIPv4(ipv4sFromSystem);
-        if (validIPv4) {
-            result.ip = validIPv4;
-            logger.debug(`[Resolve DNS] Resolved with system DNS (IPv4): ${validIPv4}`);
-            return result;
+        const validIPv4 = filterValidIPv4(ipv4sFromSystem);
+        if (validIPv4.length > 0) {
+            return answer(validIPv4, 'System DNS');
         }
 
         // Fallback to DoH for IPv4.
         if (pref === null) { // Only fallback to DoH if no specific preference against it
             const ipv4sFromDoH = await attemptDoH(4);
-            const validIPv4FromDoH = selectValidIPv4(ipv4sFromDoH);
-            if (validIPv4FromDoH) {
-                result.ip = validIPv4FromDoH;
-                return result;
+            const validIPv4FromDoH = filterValidIPv4(ipv4sFromDoH);
+            if (validIPv4FromDoH.length > 0) {
+                return answer(validIPv4FromDoH, dohProvider);
             }
         }
     }
@@ -169,20 +333,17 @@ export async function resolveDns(url: string, pref: PrefType = null): Promise<Dn
     if (pref === 6 || pref === null) {
         // Try system DNS for IPv6.
         const ipv6sFromSystem = await attemptSystemDns(6);
-        const validIPv6 = selectValidIPv6(ipv6sFromSystem);
-        if (validIPv6) {
-            result.ip = validIPv6;
-            logger.debug(`[Resolve DNS] Resolved with system DNS (IPv6): ${validIPv6}`);
-            return result;
+        const validIPv6 = filterValidIPv6(ipv6sFromSystem);
+        if (validIPv6.length > 0) {
+            return answer(validIPv6, 'System DNS');
         }
 
         // Fallback to DoH for IPv6.
         if (pref === null) { // Only fallback to DoH if no specific preference against it
             const ipv6sFromDoH = await attemptDoH(6);
-            const validIPv6FromDoH = selectValidIPv6(ipv6sFromDoH);
-            if (validIPv6FromDoH) {
-                result.ip = validIPv6FromDoH;
-                return result;
+            const validIPv6FromDoH = filterValidIPv6(ipv6sFromDoH);
+            if (validIPv6FromDoH.length > 0) {
+                return answer(validIPv6FromDoH, dohProvider);
             }
         }
     }
@@ -190,23 +351,61 @@ export async function resolveDns(url: string, pref: PrefType = null): Promise<Dn
     // If specific preference for IPv4 was set but failed, try DoH for IPv4 as a last resort.
     if (pref === 4) {
         const ipv4sFromDoH = await attemptDoH(4);
-        const validIPv4FromDoH = selectValidIPv4(ipv4sFromDoH);
-        if (validIPv4FromDoH) {
-            result.ip = validIPv4FromDoH;
-            return result;
+        const validIPv4FromDoH = filterValidIPv4(ipv4sFromDoH);
+        if (validIPv4FromDoH.length > 0) {
+            return answer(validIPv4FromDoH, dohProvider);
         }
     }
 
     // If specific preference for IPv6 was set but failed, try DoH for IPv6 as a last resort.
     if (pref === 6) {
         const ipv6sFromDoH = await attemptDoH(6);
-        const validIPv6FromDoH = selectValidIPv6(ipv6sFromDoH);
-        if (validIPv6FromDoH) {
-            result.ip = validIPv6FromDoH;
-            return result;
+        const validIPv6FromDoH = filterValidIPv6(ipv6sFromDoH);
+        if (validIPv6FromDoH.length > 0) {
+            return answer(validIPv6FromDoH, dohProvider);
         }
     }
 
     logger.debug(`[Resolve DNS] No valid IP found for ${realDomain}.`);
     return result;
-}
\ No newline at end of file
+}
+
+/**
+ * Resolves all addresses of the host of a URL, in both address families unless one is preferred.
+ * Uses resolveDns for every family, and the system resolver for names it rejects (e.g. localhost).
+ *
+ * @param {string} url The URL to resolve the DNS for.
+ * @param {PrefType} pref The preferred IP version (4 for IPv4, 6 for IPv6, null for both).
+ * @returns {Promise<string[]>} The resolved addresses, IPv4 first.
+ */
+export async function resolveAllIps(url: string, pref: PrefType = null): Promise<string[]> {
+    const families = pref ? [pref] : [4, 6] as const;
+    const ips: string[] = [];
+    for (const family of families) {
+        const result = await resolveDns(url, family);
+        ips.push(...(result.ips ?? []));
+    }
+    if (ips.length > 0) return [...new Set(ips)];
+
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    try {
+        const addresses = await dns.promises.lookup(hostname, { all: true, family: pref ?? 0 });
+        const sorted = [...addresses].sort((a, b) => a.family - b.family);
+        return [...new Set(sorted.map(({ address }) => address))];
+    } catch (error) {
+        logger.debug(`[Resolve DNS] System lookup of ${hostname} failed: ${(error as Error).message}`);
+        return [];
+    }
+}
+
+/**
+ * Measures the DNS lookup of the host of a test endpoint, resolved like the server information
+ *
+ * @param {string} url The test endpoint.
+ * @returns {Promise<DnsLookup | null>} The lookup, or null for IP addresses and hosts without a valid address.
+ */
+export async function measureDnsLookup(url: string): Promise<DnsLookup | null> {
+    const { ip, resolver, time } = await resolveDns(url, getNetworkOptions().family ?? null);
+    if (!ip || !resolver || time === undefined) return null;
+    return { hostname: new URL(url).hostname, address: ip, resolver, time };
+}
@@ -1,8 +1,9 @@
 import type { IpGeoResponse, TestConfig } from '@/types';
 import { DEFAULT_FETCH_OPTIONS, WS_OPTIONS_OOKLA } from '@/constant/fetch';
+import { proxyFetch, proxyWebSocket } from '@/models/tools/network';
 import { isDebugMode } from '@/utils/common';
 import Logger from '@/utils/logger';
-import { type Dispatcher, fetch, Request, Response } from 'undici';
+import { type HeadersInit, type RequestInit as FetchOptions, Response } from 'undici';
 import WebSocket from 'ws';
 
 const logger = new Logger();
@@ -71,13 +72,11 @@ abstract class BaseIpSource implements IpSource {
             }
 
             // Make the request
-            const response = await fetch(new Request(url, {
+            const response = await proxyFetch(url, {
                 ...DEFAULT_FETCH_OPTIONS,
-                ...options,
-                // @ts-ignore
-                headers: headers as HeadersInit & Dispatcher.RequestOptions,
-                path: new URL(url).pathname,
-            }));
+                ...options as FetchOptions,
+                headers: headers as HeadersInit
+            });
 
             // Log response details
             const duration = Date.now() - startTime;
@@ -340,7 +339,7 @@ class OoklaSource extends BaseIpSource {
      */
     private setupWebSocket(wsUrl: string): Promise<string> {
         return new Promise<string>((resolve, reject) => {
-            const ws = new WebSocket(wsUrl, WS_OPTIONS_OOKLA);
+            const ws = new WebSocket(wsUrl, proxyWebSocket(wsUrl, WS_OPTIONS_OOKLA));
 
             const timeout = setTimeout(() => {
                 ws.terminate();
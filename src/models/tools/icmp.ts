@@ -0,0 +1,282 @@
+import { ptr } from 'bun:ffi';
+import { promise as ping } from 'ping';
+import type { IcmpPacket } from '@/types';
+import { getLocalAddress, lookupAddress } from '@/models/tools/network';
+import { AF_INET, AF_INET6, bindSocket, CLOCK_REALTIME, EAGAIN, errno, getLibc, type Libc, MSG_DONTWAIT, SO_TIMESTAMPNS, SOCK_DGRAM, SOL_SOCKET, toSockaddr } from '@/models/tools/libc';
+import { msToMicros, sleep } from '@/utils/common';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+const IPPROTO_ICMP = 1;
+const IPPROTO_ICMPV6 = 58;
+
+// ICMP echo types of IPv4 and IPv6
+const ECHO_REQUEST = { 4: 8, 6: 128 };
+const ECHO_REPLY = { 4: 0, 6: 129 };
+
+/**
+ * Size of the echo payload, same as the default of ping
+ */
+const PAYLOAD_SIZE = 56;
+
+/**
+ * Interval of polling the non-blocking socket in milliseconds, RTTs use kernel timestamps and do not depend on it
+ */
+const POLL_INTERVAL = 1;
+
+/**
+ * Calculates the internet checksum of an ICMP message
+ * @param data - ICMP message with a zero checksum field
+ * @returns Checksum
+ */
+export function checksum(data: Uint8Array): number {
+    let sum = 0;
+    for (let i = 0; i < data.length; i += 2) {
+        sum += (data[i] << 8) + (data[i + 1] ?? 0);
+    }
+    while (sum > 0xffff) sum = (sum & 0xffff) + (sum >>> 16);
+    return ~sum & 0xffff;
+}
+
+/**
+ * Checks whether a received message is the echo reply of a request
+ * @param message - Received ICMP message
+ * @param family - Address family
+ * @param seq - Sequence number of the request
+ * @returns True if the message is the reply
+ */
+export function isEchoReply(message: Uint8Array, family: 4 | 6, seq: number): boolean {
+    if (message.length < 8) return false;
+    const view = new DataView(message.buffer, message.byteOffset, message.byteLength);
+    return view.getUint8(0) === ECHO_REPLY[family] && view.getUint16(6) === seq;
+}
+
+/**
+ * Reads the kernel receive time of a message from its control data
+ * @param control - Control data of recvmsg
+ * @param length - Length of the control data set by the kernel
+ * @returns Receive time in nanoseconds, or null if there is no timestamp
+ */
+export function readTimestamp(control: Uint8Array, length: number): bigint | null {
+    // struct cmsghdr: len, level, type, then struct timespec
+    const view = new DataView(control.buffer, control.byteOffset, control.byteLength);
+    const hasTimestamp = length >= 32
+        && view.getInt32(8, true) === SOL_SOCKET
+        && view.getInt32(12, true) === SO_TIMESTAMPNS;
+    return hasTimestamp ? view.getBigInt64(16, true) * 1000000000n + view.getBigInt64(24, true) : null;
+}
+
+/**
+ * Unprivileged datagram ICMP socket (Linux "ping socket")
+ *
+ * Requires the group of the process to be in net.ipv4.ping_group_range, which also covers IPv6.
+ * The kernel sets the echo identifier and only delivers replies to this socket.
+ */
+class DatagramIcmpSocket {
+    private readonly packet = new Uint8Array(8 + PAYLOAD_SIZE);
+    private readonly receiveBuffer = new Uint8Array(2048);
+    private readonly control = new Uint8Array(64);
+    private readonly iovec = new BigUint64Array(2);
+    private readonly msghdr = new BigUint64Array(7);
+    private readonly timespec = new BigInt64Array(2);
+    private readonly sockaddr: Uint8Array;
+
+    private constructor(private readonly lib: Libc, private readonly fd: number, address: string, private readonly family: 4 | 6) {
+        this.sockaddr = toSockaddr(address, family);
+    }
+
+    /**
+     * Opens a datagram ICMP socket
+     * @param address - Target IP address
+     * @param family - Address family
+     * @param source - Local address to send from
+     * @returns Socket, or null if datagram ICMP sockets are not permitted
+     * @throws {Error} If the source address cannot be bound
+     */
+    static open(address: string, family: 4 | 6, source?: string): DatagramIcmpSocket | null {
+        const lib = getLibc();
+        if (!lib) return null;
+
+        const fd = family === 4
+            ? lib.socket(AF_INET, SOCK_DGRAM, IPPROTO_ICMP)
+            : lib.socket(AF_INET6, SOCK_DGRAM, IPPROTO_ICMPV6);
+        if (fd < 0) {
+            logger.debug(`[icmp] Datagram ICMP socket not permitted (errno ${errno(lib)}), check net.ipv4.ping_group_range`);
+            return null;
+        }
+
+        if (source) {
+            try {
+                bindSocket(lib, fd, source, family);
+            } catch (error) {
+                lib.close(fd);
+                throw error;
+            }
+        }
+
+        // Kernel receive timestamps keep the polling interval out of the RTT
+        const enable = new Int32Array([1]);
+        lib.setsockopt(fd, SOL_SOCKET, SO_TIMESTAMPNS, ptr(enable), 4);
+
+        return new DatagramIcmpSocket(lib, fd, address, family);
+    }
+
+    /**
+     * Reads the realtime clock, the clock of kernel timestamps
+     * @returns Time in nanoseconds
+     */
+    private now(): bigint {
+        this.lib.clock_gettime(CLOCK_REALTIME, ptr(this.timespec));
+        return this.timespec[0] * 1000000000n + this.timespec[1];
+    }
+
+    /**
+     * Receives a pending message without blocking
+     * @returns Message length and kernel receive time in nanoseconds, or null if nothing is pending
+     * @throws {Error} If receiving fails
+     */
+    private receive(): { length: number; time: bigint } | null {
+        // The garbage collector may move the buffers, their pointers are taken on every call
+        this.iovec[0] = BigInt(ptr(this.receiveBuffer));
+        this.iovec[1] = BigInt(this.receiveBuffer.length);
+        // struct msghdr: name, namelen, iov, iovlen, control, controllen, flags
+        this.msghdr[2] = BigInt(ptr(this.iovec));
+        this.msghdr[3] = 1n;
+        this.msghdr[4] = BigInt(ptr(this.control));
+        this.msghdr[5] = BigInt(this.control.length);
+        const length = Number(this.lib.recvmsg(this.fd, ptr(this.msghdr), MSG_DONTWAIT));
+        if (length < 0) {
+            const code = errno(this.lib);
+            if (code === EAGAIN) return null;
+            throw new Error(`recvmsg failed (errno ${code})`);
+        }
+
+        const time = readTimestamp(this.control, Number(this.msghdr[5])) ?? this.now();
+        return { length, time };
+    }
+
+    /**
+     * Sends an echo request and waits for its reply
+     * @param seq - Sequence number
+     * @param timeout - Timeout in milliseconds
+     * @returns Round trip time in microseconds, or -1 if no reply arrived in time
+     * @throws {Error} If sending fails
+     */
+    async echo(seq: number, timeout: number): Promise<number> {
+        const view = new DataView(this.packet.buffer);
+        this.packet.fill(0);
+        view.setUint8(0, ECHO_REQUEST[this.family]);
+        view.setUint16(6, seq);
+        for (let i = 8; i < this.packet.length; i++) this.packet[i] = i & 0xff;
+        // The kernel computes the ICMPv6 checksum itself
+        if (this.family === 4) view.setUint16(2, checksum(this.packet));
+
+        const sent = this.now();
+        const result = Number(this.lib.sendto(this.fd, ptr(this.packet), this.packet.length, 0, ptr(this.sockaddr), this.sockaddr.length));
+        if (result < 0) {
+            throw new Error(`sendto failed (errno ${errno(this.lib)})`);
+        }
+
+        const deadline = performance.now() + timeout;
+        while (performance.now() < deadline) {
+            const reply = this.receive();
+            if (!reply) {
+                await sleep(POLL_INTERVAL);
+                continue;
+            }
+
+            // Replies of earlier, timed out requests are skipped
+            if (isEchoReply(this.receiveBuffer.subarray(0, reply.length), this.family, seq)) {
+                // Some virtualized kernels repeat stale timestamps, use the receive time then
+                const received = reply.time > sent ? reply.time : this.now();
+                return Number(received - sent) / 1000;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Closes the socket
+     */
+    close(): void {
+        this.lib.close(this.fd);
+    }
+}
+
+/**
+ * ICMP echo session to one host, with sequence numbers across echoes
+ * Uses a datagram ICMP socket where permitted and falls back to the ping binary
+ */
+export class IcmpSession {
+    private seq = 0;
+
+    private constructor(
+        readonly address: string,
+        readonly family: 4 | 6,
+        private readonly source: string | undefined,
+        private readonly socket: DatagramIcmpSocket | null
+    ) { }
+
+    /**
+     * Implementation used for the echoes
+     */
+    get method(): 'socket' | 'binary' {
+        return this.socket ? 'socket' : 'binary';
+    }
+
+    /**
+     * Resolves a host in the configured address family and opens an echo session
+     * @param hostname - Hostname or IP address
+     * @returns Echo session
+     * @throws {Error} If the host cannot be resolved or the source address cannot be bound
+     */
+    static async open(hostname: string): Promise<IcmpSession> {
+        const { address, family } = await lookupAddress(hostname);
+        const source = getLocalAddress(address);
+        const socket = DatagramIcmpSocket.open(address, family, source);
+        logger.debug(`[icmp] ${hostname} (${address}) via ${socket ? 'datagram ICMP socket' : 'ping binary'}${source ? ` from ${source}` : ''}`);
+        return new IcmpSession(address, family, source, socket);
+    }
+
+    /**
+     * Sends one echo request
+     * @param timeout - Timeout in milliseconds
+     * @returns Echo result, rtt -1 if the packet was lost
+     */
+    async echo(timeout = 2000): Promise<IcmpPacket> {
+        const seq = this.seq;
+        this.seq = (this.seq + 1) & 0xffff;
+
+        try {
+            const rtt = this.socket ? await this.socket.echo(seq, timeout) : await this.echoBinary(timeout);
+            return { seq, rtt: rtt > 0 ? Math.round(rtt) : -1 };
+        } catch (error) {
+            logger.debug(`[icmp] Echo ${seq} to ${this.address} failed: ${error}`);
+            return { seq, rtt: -1 };
+        }
+    }
+
+    /**
+     * Sends one echo request with the ping binary
+     * @param timeout - Timeout in milliseconds
+     * @returns Round trip time in microseconds, or -1 if the packet was lost
+     */
+    private async echoBinary(timeout: number): Promise<number> {
+        const result = await ping.probe(this.address, {
+            timeout: Math.max(1, Math.ceil(timeout / 1000)),
+            min_reply: 1,
+            v6: this.family === 6,
+            sourceAddr: this.source
+        });
+        const time = Number(result.time);
+        return result.alive && Number.isFinite(time) ? msToMicros(time) : -1;
+    }
+
+    /**
+     * Closes the session
+     */
+    close(): void {
+        this.socket?.close();
+    }
+}
@@ -0,0 +1,140 @@
+import { dlopen, FFIType, ptr, read } from 'bun:ffi';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+// Linux constants, identical on x86_64 and arm64
+export const AF_INET = 2;
+export const AF_INET6 = 10;
+export const SOCK_DGRAM = 2;
+export const SOL_SOCKET = 1;
+export const SO_TIMESTAMPNS = 35;
+export const MSG_DONTWAIT = 0x40;
+export const EAGAIN = 11;
+export const CLOCK_REALTIME = 0;
+
+/**
+ * libc functions used for raw socket access
+ */
+export type Libc = ReturnType<typeof loadLibc>;
+
+let libc: Libc | null | undefined;
+
+/**
+ * Loads the libc functions with bun:ffi
+ * @returns libc symbols
+ * @throws {Error} If libc cannot be loaded, e.g. on musl based systems
+ */
+function loadLibc() {
+    return dlopen('libc.so.6', {
+        socket: { args: [FFIType.i32, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
+        bind: { args: [FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+        setsockopt: { args: [FFIType.i32, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+        sendto: { args: [FFIType.i32, FFIType.ptr, FFIType.u64, FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.i64 },
+        recvmsg: { args: [FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i64 },
+        close: { args: [FFIType.i32], returns: FFIType.i32 },
+        clock_gettime: { args: [FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+        __errno_location: { args: [], returns: FFIType.ptr }
+    }).symbols;
+}
+
+/**
+ * Gets the libc functions, if sockets can be driven through bun:ffi on this platform
+ * @returns libc symbols, or null on other platforms
+ */
+export function getLibc(): Libc | null {
+    if (libc !== undefined) return libc;
+    libc = null;
+    if (process.platform !== 'linux' || !['x64', 'arm64'].includes(process.arch)) return libc;
+
+    try {
+        libc = loadLibc();
+    } catch (error) {
+        logger.debug(`[libc] bun:ffi unavailable: ${error}`);
+    }
+    return libc;
+}
+
+/**
+ * Reads errno of the last failed libc call
+ * @param lib - libc symbols
+ * @returns Error number
+ */
+export function errno(lib: Libc): number {
+    const location = lib.__errno_location();
+    return location ? read.i32(location, 0) : 0;
+}
+
+/**
+ * Builds the socket address of an IP address
+ * @param address - IPv4 or IPv6 address
+ * @param family - Address family
+ * @param port - Port in host byte order
+ * @returns sockaddr_in or sockaddr_in6
+ */
+export function toSockaddr(address: string, family: 4 | 6, port = 0): Uint8Array {
+    if (family === 4) {
+        const sockaddr = new Uint8Array(16);
+        const view = new DataView(sockaddr.buffer);
+        view.setUint16(0, AF_INET, true);
+        view.setUint16(2, port);
+        sockaddr.set(address.split('.').map(Number), 4);
+        return sockaddr;
+    }
+
+    const sockaddr = new Uint8Array(28);
+    const view = new DataView(sockaddr.buffer);
+    view.setUint16(0, AF_INET6, true);
+    view.setUint16(2, port);
+    const [head, tail = ''] = address.split('%')[0].split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    // IPv4-mapped tails, e.g. ::ffff:192.0.2.1
+    const expand = (groups: string[]) => groups.flatMap(group => group.includes('.')
+        ? (([a, b, c, d]) => [((a << 8) | b).toString(16), ((c << 8) | d).toString(16)])(group.split('.').map(Number))
+        : [group]);
+    const left = expand(headGroups);
+    const right = expand(tailGroups);
+    const groups = address.includes('::')
+        ? [...left, ...Array(8 - left.length - right.length).fill('0'), ...right]
+        : left;
+    groups.forEach((group, index) => view.setUint16(8 + index * 2, Number.parseInt(group, 16)));
+    return sockaddr;
+}
+
+/**
+ * Reads the IP address and port of a socket address
+ * @param data - Buffer holding a sockaddr_in or sockaddr_in6
+ * @param offset - Offset of the socket address in the buffer
+ * @returns Address in its shortest form and port, or null for other address families
+ */
+export function fromSockaddr(data: Uint8Array, offset = 0): { address: string; port: number } | null {
+    const view = new DataView(data.buffer, data.byteOffset + offset);
+    const family = view.getUint16(0, true);
+    const port = view.getUint16(2);
+
+    if (family === AF_INET) {
+        return { address: Array.from(data.subarray(offset + 4, offset + 8)).join('.'), port };
+    }
+    if (family === AF_INET6) {
+        const groups = Array.from({ length: 8 }, (_, index) => view.getUint16(8 + index * 2).toString(16));
+        // The URL parser compresses the longest run of zero groups
+        return { address: new URL(`http://[${groups.join(':')}]`).hostname.slice(1, -1), port };
+    }
+    return null;
+}
+
+/**
+ * Binds a socket to a local address
+ * @param lib - libc symbols
+ * @param fd - Socket
+ * @param address - Local IP address
+ * @param family - Address family
+ * @throws {Error} If the address cannot be bound
+ */
+export function bindSocket(lib: Libc, fd: number, address: string, family: 4 | 6): void {
+    const sockaddr = toSockaddr(address, family);
+    if (lib.bind(fd, ptr(sockaddr), sockaddr.length) < 0) {
+        throw new Error(`bind to ${address} failed (errno ${errno(lib)})`);
+    }
+}
@@ -0,0 +1,771 @@
+import dns from 'node:dns/promises';
+import { readFileSync } from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import os from 'node:os';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import tls from 'node:tls';
+import { fetch, type RequestInit, type Response } from 'undici';
+import type { ClientOptions } from 'ws';
+import type { IpFamily } from '@/types';
+import { configureDns, getDnsStrategy, lookupHost } from '@/models/tools/dnsResolver';
+import { connectSocks } from '@/models/tools/socks';
+import { getUrlPort, stripUrlCredentials } from '@/utils/common';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+/**
+ * Connection settings shared by all test connections
+ * @interface NetworkOptions
+ */
+export interface NetworkOptions {
+    /** Address family of the test connections, system preference if not set */
+    family?: IpFamily;
+    /** Network interface whose addresses the test connections are sent from */
+    interface?: string;
+    /** Local address the test connections are sent from */
+    source?: string;
+    /** Proxy URL of HTTP requests and WebSockets, http, https, socks5 or socks5h */
+    proxy?: string;
+    /** Fixed addresses of hosts like curl --resolve, "host:port:address" */
+    resolve?: string[];
+    /** Resolution strategy, system, doh, dot or the IP address of a DNS server */
+    dns?: string;
+    /** DoH endpoints replacing the default providers */
+    doh?: string[];
+    /** Extra headers of the test requests, "Name: value", an empty value removes a default header */
+    headers?: string[];
+    /** User-Agent of the test requests, a random desktop browser if not set */
+    userAgent?: string;
+    /** Basic authentication of the test requests, "user:password" */
+    basicAuth?: string;
+    /** Bearer token of the test requests */
+    bearer?: string;
+    /** PEM file of CA certificates trusted in addition to the bundled root certificates */
+    cacert?: string;
+    /** PEM file of the client certificate of mutual TLS */
+    cert?: string;
+    /** PEM file of the private key of the client certificate, the certificate file if not set */
+    key?: string;
+    /** Skips the verification of server certificates */
+    insecure?: boolean;
+    /** Lowest accepted TLS version, 1.0, 1.1, 1.2 or 1.3 */
+    tlsMinVersion?: string;
+}
+
+/**
+ * TLS settings of all TLS connections, in the options format of node:tls
+ * @interface TlsSettings
+ */
+interface TlsSettings {
+    ca?: string[];
+    cert?: string;
+    key?: string;
+    rejectUnauthorized?: boolean;
+    minVersion?: tls.SecureVersion;
+}
+
+/**
+ * Fixed address of a host and port, replacing the DNS lookup
+ * @interface ResolveEntry
+ */
+interface ResolveEntry {
+    host: string;
+    port: number;
+    address: string;
+}
+
+/**
+ * Request options of Bun's fetch, which undici is mapped to at runtime
+ * Bun ignores undici dispatchers, connections are steered through the URL and these options instead
+ */
+type NetworkRequestInit = RequestInit & {
+    tls?: Omit<TlsSettings, 'minVersion'> & {
+        serverName?: string;
+        /** Protocol version number, e.g. 0x0303 for TLS 1.2 */
+        minVersion?: number;
+    };
+    proxy?: string;
+};
+
+/**
+ * Client options of Bun's WebSocket, which ws is mapped to at runtime
+ */
+type NetworkClientOptions = ClientOptions & {
+    proxy?: string;
+    tls?: NetworkRequestInit['tls'];
+};
+
+/**
+ * Connection settings of a request sent with node:http
+ * @interface NodeRequestOptions
+ */
+interface NodeRequestOptions {
+    /** Host header, if the URL does not point at the original host */
+    host?: string;
+    /** Hostname the certificate is verified against */
+    servername?: string;
+    localAddress?: string;
+    /** Opens the connection instead of the default agent */
+    createConnection?: http.ClientRequestArgs['createConnection'];
+}
+
+/**
+ * URL pointed at the resolved address of its host
+ * @interface PinnedUrl
+ */
+interface PinnedUrl {
+    url: URL;
+    /** Original host with port, sent as Host header */
+    host: string;
+    /** Original hostname, used to verify certificates */
+    hostname: string;
+    family: IpFamily;
+}
+
+let networkOptions: NetworkOptions = {};
+
+/**
+ * TLS versions of the TLS minimum version option and their protocol version numbers
+ */
+const TLS_VERSIONS: Record<tls.SecureVersion, number> = {
+    'TLSv1': 0x0301,
+    'TLSv1.1': 0x0302,
+    'TLSv1.2': 0x0303,
+    'TLSv1.3': 0x0304
+};
+
+/**
+ * Protocols accepted in proxy URLs
+ */
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks5:', 'socks5h:'];
+
+/**
+ * Parsed proxy URL, null if requests connect directly
+ */
+let proxyUrl: URL | null = null;
+
+/**
+ * Fixed addresses of the resolve option, earlier entries take precedence
+ */
+let resolveEntries: ResolveEntry[] = [];
+
+/**
+ * Headers of the test requests by lowercase name, null removes a default header
+ */
+let requestHeaders: Record<string, string | null> = {};
+
+/**
+ * TLS settings of the CA, client certificate, insecure and TLS version options
+ */
+let tlsSettings: TlsSettings = {};
+
+/**
+ * Source addresses of the test connections by address family, empty if they are not bound
+ */
+let localAddresses: Partial<Record<IpFamily, string>> = {};
+
+/**
+ * Hosts already warned about WebSocket connections that do not follow the network options
+ */
+const warnedHosts = new Set<string>();
+
+/**
+ * Resolved addresses by hostname, so all connections of a run reach the same address
+ */
+const addressCache = new Map<string, Promise<{ address: string; family: IpFamily }>>();
+
+/**
+ * Finds the source addresses of the source address or interface option
+ * @param options - Network options
+ * @returns Source address by address family, empty if connections are not bound
+ * @throws {Error} If the source address is not local or the interface has no usable address
+ */
+function findLocalAddresses(options: NetworkOptions): Partial<Record<IpFamily, string>> {
+    const interfaces = os.networkInterfaces();
+    const addresses: Partial<Record<IpFamily, string>> = {};
+
+    if (options.source) {
+        const family = net.isIP(options.source);
+        if (!family) throw new Error(`Invalid source address: ${options.source}`);
+        const isLocal = Object.values(interfaces).flat().some(local => local?.address === options.source);
+        if (!isLocal) throw new Error(`Source address ${options.source} is not assigned to any network interface`);
+        addresses[family === 6 ? 6 : 4] = options.source;
+    } else if (options.interface) {
+        const locals = interfaces[options.interface];
+        if (!locals) throw new Error(`Unknown network interface: ${options.interface}`);
+        for (const local of locals) {
+            // Link-local addresses cannot reach test servers
+            if (local.family === 'IPv6' && local.address.toLowerCase().startsWith('fe80:')) continue;
+            if (local.family === 'IPv4') addresses[4] ??= local.address;
+            else addresses[6] ??= local.address;
+        }
+        if (!addresses[4] && !addresses[6]) throw new Error(`Network interface ${options.interface} has no usable address`);
+    } else {
+        return addresses;
+    }
+
+    if (options.family && !addresses[options.family]) {
+        throw new Error(`${options.source ?? options.interface} has no IPv${options.family} address`);
+    }
+    return addresses;
+}
+
+/**
+ * Parses a proxy URL
+ * @param proxy - Proxy URL, http:// is assumed without a protocol
+ * @returns Proxy URL
+ * @throws {Error} If the URL is invalid or its protocol is not supported
+ */
+function parseProxy(proxy: string): URL {
+    let url: URL;
+    try {
+        url = new URL(proxy.includes('://') ? proxy : `http://${proxy}`);
+    } catch {
+        throw new Error(`Invalid proxy URL: ${stripUrlCredentials(proxy)}`);
+    }
+    if (!PROXY_PROTOCOLS.includes(url.protocol)) {
+        throw new Error(`Unsupported proxy protocol ${url.protocol.slice(0, -1)}, options: http, https, socks5, socks5h`);
+    }
+    return url;
+}
+
+/**
+ * Gets the proxy of the environment, like curl: HTTPS_PROXY, then ALL_PROXY
+ * @returns Proxy URL, or undefined if none is set
+ */
+export function getProxyFromEnv(): string | undefined {
+    const { HTTPS_PROXY, https_proxy, ALL_PROXY, all_proxy } = process.env;
+    return HTTPS_PROXY || https_proxy || ALL_PROXY || all_proxy || undefined;
+}
+
+/**
+ * Checks whether a host is excluded from the proxy by NO_PROXY
+ * Entries match the host and its subdomains, "*" matches every host
+ * @param url - Request URL
+ * @returns True if the request connects directly
+ */
+function isProxyBypassed(url: URL): boolean {
+    const noProxy = process.env.NO_PROXY ?? process.env.no_proxy;
+    if (!noProxy) return false;
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+        if (entry === '*') return true;
+        const host = entry.toLowerCase().replace(/^\*?\./, '');
+        // Bare IPv6 addresses have no port, bracketed ones may have one
+        const [pattern, port] = net.isIPv6(host) ? [host] : host.split(/:(?=\d+$)/);
+        if (port && Number(port) !== getUrlPort(url)) return false;
+        const name = pattern.replace(/^\[|\]$/g, '');
+        return hostname === name || hostname.endsWith(`.${name}`);
+    });
+}
+
+/**
+ * Gets the proxy of a request
+ * @param url - Request URL
+ * @returns Proxy URL, or null if the request connects directly
+ */
+function getProxy(url: URL): URL | null {
+    return proxyUrl && !isProxyBypassed(url) ? proxyUrl : null;
+}
+
+/**
+ * Checks whether requests to a URL go through a proxy
+ * Without a configured proxy, Bun's fetch still sends plain HTTP requests through HTTP_PROXY
+ * @param url - Request URL
+ * @returns True if the request is proxied
+ */
+export function isProxied(url: URL): boolean {
+    if (isProxyBypassed(url)) return false;
+    const { HTTP_PROXY, http_proxy } = process.env;
+    return proxyUrl !== null || (url.protocol === 'http:' && !!(HTTP_PROXY || http_proxy));
+}
+
+/**
+ * Parses a fixed address of the resolve option
+ * @param entry - Entry like "example.com:443:192.0.2.1", IPv6 addresses may be bracketed
+ * @returns Host, port and address
+ * @throws {Error} If the entry is malformed
+ */
+function parseResolveEntry(entry: string): ResolveEntry {
+    const match = entry.match(/^([^:]+):(\d+):\[?([^\]]+)\]?$/);
+    const port = match ? Number(match[2]) : 0;
+    if (!match || port < 1 || port > 65535 || !net.isIP(match[3])) {
+        throw new Error(`Invalid resolve entry ${entry}, expected host:port:address`);
+    }
+    return { host: match[1].toLowerCase(), port, address: match[3] };
+}
+
+/**
+ * Parses a header of the header option
+ * @param entry - Header like "X-Token: abc", "Name:" without value removes the header
+ * @returns Lowercase name and value, null if the header is removed
+ * @throws {Error} If the entry is malformed
+ */
+function parseHeader(entry: string): [string, string | null] {
+    const match = entry.match(/^([!#$%&'*+.^_`|~0-9A-Za-z-]+):[ \t]*(.*?)[ \t]*$/);
+    if (!match) throw new Error(`Invalid header ${entry}, expected "Name: value"`);
+    return [match[1].toLowerCase(), match[2] || null];
+}
+
+/**
+ * Builds the headers of the test requests from the network options
+ * Headers of the header option take precedence over the user agent and authentication options, like curl
+ * @param options - Network options
+ * @returns Headers by lowercase name, null for removed headers
+ * @throws {Error} If a header or the basic authentication is malformed
+ */
+function buildRequestHeaders(options: NetworkOptions): Record<string, string | null> {
+    const headers: Record<string, string | null> = {};
+    if (options.userAgent) headers['user-agent'] = options.userAgent;
+    if (options.basicAuth) {
+        // The credentials are left out of the error message
+        if (!options.basicAuth.includes(':')) throw new Error('Invalid basic authentication, expected user:password');
+        headers.authorization = `Basic ${Buffer.from(options.basicAuth).toString('base64')}`;
+    }
+    if (options.bearer) headers.authorization = `Bearer ${options.bearer}`;
+    for (const entry of options.headers ?? []) {
+        const [name, value] = parseHeader(entry);
+        headers[name] = value;
+    }
+    return headers;
+}
+
+/**
+ * Applies the headers of the network options to the headers of a test request
+ * @param init - Headers of the request
+ * @returns Headers by lowercase name
+ */
+export function applyRequestHeaders(init?: HeadersInit): Record<string, string> {
+    const headers: Record<string, string> = {};
+    new Headers(init).forEach((value, key) => {
+        headers[key] = value;
+    });
+    for (const [name, value] of Object.entries(requestHeaders)) {
+        if (value === null) delete headers[name];
+        else headers[name] = value;
+    }
+    return headers;
+}
+
+/**
+ * Reads a PEM file of the TLS options
+ * @param file - File path
+ * @param description - Content of the file, used in the error message
+ * @returns File content
+ * @throws {Error} If the file cannot be read
+ */
+function readPem(file: string, description: string): string {
+    try {
+        return readFileSync(file, 'utf8');
+    } catch (error) {
+        throw new Error(`Cannot read ${description} ${file}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Loads the TLS settings of the network options
+ * @param options - Network options
+ * @returns TLS settings
+ * @throws {Error} If a file cannot be read, a key is given without certificate or the TLS version is invalid
+ */
+function loadTlsSettings(options: NetworkOptions): TlsSettings {
+    const settings: TlsSettings = {};
+    if (options.cacert) {
+        // Added to the bundled root certificates, public hosts like the geo IP services stay trusted
+        settings.ca = [...tls.rootCertificates, readPem(options.cacert, 'CA certificate')];
+    }
+    if (options.key && !options.cert) throw new Error('A private key needs a client certificate, use --cert with --key');
+    if (options.cert) {
+        settings.cert = readPem(options.cert, 'client certificate');
+        // The certificate file may contain the key as well, like curl
+        settings.key = readPem(options.key ?? options.cert, 'private key');
+    }
+    if (options.insecure) settings.rejectUnauthorized = false;
+    if (options.tlsMinVersion) {
+        const version = `TLSv${options.tlsMinVersion.replace(/^tlsv?/i, '')}`.replace(/^TLSv1\.0$/, 'TLSv1');
+        if (!(version in TLS_VERSIONS)) {
+            throw new Error(`Invalid TLS version ${options.tlsMinVersion}, options: 1.0, 1.1, 1.2, 1.3`);
+        }
+        settings.minVersion = version as tls.SecureVersion;
+    }
+    return settings;
+}
+
+/**
+ * Gets the TLS settings of the network options
+ * Passed to the TLS connections opened with node:tls
+ * @returns TLS settings, empty if no TLS option is set
+ */
+export function getTlsSettings(): Readonly<TlsSettings> {
+    return tlsSettings;
+}
+
+/**
+ * Converts the TLS settings to the TLS options of Bun's fetch and WebSocket
+ * @param serverName - Hostname the certificate is verified against, if the URL does not point at the original host
+ * @returns TLS options, undefined if there is nothing to set
+ */
+function getFetchTls(serverName?: string): NetworkRequestInit['tls'] {
+    const { minVersion, ...settings } = tlsSettings;
+    if (!serverName && !minVersion && Object.keys(settings).length === 0) return undefined;
+    return { ...settings, serverName, minVersion: minVersion && TLS_VERSIONS[minVersion] };
+}
+
+/**
+ * Applies the TLS settings to request options of Bun's fetch
+ * @param init - Request options
+ * @param serverName - Hostname the certificate is verified against, if the URL does not point at the original host
+ * @returns Request options with TLS options
+ */
+function withTls(init: RequestInit, serverName?: string): NetworkRequestInit {
+    const options = getFetchTls(serverName);
+    return options ? { ...init, tls: options } : init;
+}
+
+/**
+ * Finds the fixed address of a host
+ * @param hostname - Hostname, IPv6 addresses may be bracketed
+ * @param port - Port, any entry of the host matches if not given
+ * @returns Fixed address, or undefined if the host is resolved by DNS
+ */
+export function getResolveOverride(hostname: string, port?: number): string | undefined {
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    return resolveEntries.find(entry => entry.host === host && (port === undefined || entry.port === port))?.address;
+}
+
+/**
+ * Sets the connection settings of the following test connections
+ * A source address, or an interface with addresses of one family only, implies that family
+ * @param options - Network options
+ * @throws {Error} If the source address, interface, proxy, a resolve entry, the DNS settings, a header or the TLS settings cannot be used
+ */
+export function configureNetwork(options: NetworkOptions): void {
+    proxyUrl = options.proxy ? parseProxy(options.proxy) : null;
+    resolveEntries = (options.resolve ?? []).map(parseResolveEntry);
+    requestHeaders = buildRequestHeaders(options);
+    tlsSettings = loadTlsSettings(options);
+    configureDns({ strategy: options.dns, doh: options.doh });
+    localAddresses = findLocalAddresses(options);
+    const families = ([4, 6] as const).filter(family => localAddresses[family]);
+    networkOptions = { ...options, family: options.family ?? (families.length === 1 ? families[0] : undefined) };
+    addressCache.clear();
+}
+
+/**
+ * Gets the connection settings of the test connections
+ * @returns Network options
+ */
+export function getNetworkOptions(): Readonly<NetworkOptions> {
+    return networkOptions;
+}
+
+/**
+ * Gets the source address of test connections to an address
+ * @param address - Remote IP address
+ * @returns Local address of the same family, or undefined if connections are not bound
+ */
+export function getLocalAddress(address: string): string | undefined {
+    return localAddresses[net.isIPv6(address) ? 6 : 4];
+}
+
+/**
+ * Checks whether test connections resolve hosts with a strategy other than the system resolver
+ * @returns True if hosts are resolved with DoH, DoT or a DNS server
+ */
+function hasDnsStrategy(): boolean {
+    const strategy = getDnsStrategy();
+    return strategy !== null && strategy !== 'system';
+}
+
+/**
+ * Resolves a hostname in the configured address family, fixed addresses of the resolve option first
+ * @param hostname - Hostname or IP address, IPv6 addresses may be bracketed
+ * @param port - Port connected to, selects the fixed address
+ * @returns Address and its family
+ * @throws {Error} If the host has no address of the configured family
+ */
+export function lookupAddress(hostname: string, port?: number): Promise<{ address: string; family: IpFamily }> {
+    const host = getResolveOverride(hostname, port) ?? hostname.replace(/^\[|\]$/g, '');
+    const { family } = networkOptions;
+
+    if (net.isIP(host)) {
+        const hostFamily: IpFamily = net.isIPv6(host) ? 6 : 4;
+        if (family && family !== hostFamily) {
+            return Promise.reject(new Error(`${host} is not an IPv${family} address`));
+        }
+        return Promise.resolve({ address: host, family: hostFamily });
+    }
+
+    let result = addressCache.get(host);
+    if (!result) {
+        const lookup = hasDnsStrategy()
+            ? lookupHost(host, family)
+            : dns.lookup(host, { family: family ?? 0 })
+                .then(({ address, family: resolved }) => ({ address, family: resolved === 6 ? 6 : 4 } as const));
+        result = lookup.catch((error: Error) => {
+            addressCache.delete(host);
+            throw new Error(`Failed to resolve ${host}${family ? ` over IPv${family}` : ''}: ${error.message}`);
+        });
+        addressCache.set(host, result);
+    }
+    return result;
+}
+
+/**
+ * Points a URL at the resolved address of its host, if the connection has to be steered
+ * @param url - Request URL
+ * @returns Pinned URL, or null if the URL can be used as is
+ * @throws {Error} If the host has no address of the configured family
+ */
+async function pinUrl(url: URL): Promise<PinnedUrl | null> {
+    const port = getUrlPort(url);
+    const isSteered = networkOptions.family || Object.keys(localAddresses).length > 0 || hasDnsStrategy();
+    if (!isSteered && !getResolveOverride(url.hostname, port)) return null;
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const { address, family } = await lookupAddress(hostname, port);
+    const pinned = new URL(url);
+    pinned.hostname = family === 6 ? `[${address}]` : address;
+    logger.debug(`[network] ${url.host} pinned to ${pinned.host}`);
+    return { url: pinned, host: url.host, hostname, family };
+}
+
+/**
+ * Fetches a URL with node:http, its response is wrapped into a fetch Response
+ * Used for connections Bun's fetch cannot open: bound to a local address or through a SOCKS proxy
+ * @param url - Request URL
+ * @param init - Request options
+ * @param options - Connection settings
+ * @returns Response
+ * @throws {Error} If the request fails
+ */
+async function nodeFetch(url: URL, init: RequestInit, options: NodeRequestOptions): Promise<Response> {
+    // A Request serializes the body and adds the content type of form data
+    const request = new Request(url, {
+        method: init.method,
+        headers: init.headers as HeadersInit | undefined,
+        body: init.body as BodyInit | null | undefined
+    });
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+        headers[key] = value;
+    });
+    if (options.host) headers.host = options.host;
+    // Sizes known upfront are sent like fetch does, other bodies are chunked
+    if (typeof init.body === 'string') headers['content-length'] = String(Buffer.byteLength(init.body));
+    else if (ArrayBuffer.isView(init.body) || init.body instanceof ArrayBuffer) headers['content-length'] = String(init.body.byteLength);
+
+    const client = url.protocol === 'https:' ? https : http;
+    return new Promise<Response>((resolve, reject) => {
+        const outgoing = client.request(url, {
+            method: request.method,
+            headers,
+            ...tlsSettings,
+            localAddress: options.localAddress,
+            servername: options.servername,
+            createConnection: options.createConnection,
+            signal: init.signal ?? undefined
+        }, incoming => {
+            const responseHeaders = new Headers();
+            for (let i = 0; i < incoming.rawHeaders.length; i += 2) {
+                responseHeaders.append(incoming.rawHeaders[i], incoming.rawHeaders[i + 1]);
+            }
+            const status = incoming.statusCode ?? 0;
+            const hasBody = request.method !== 'HEAD' && ![101, 204, 205, 304].includes(status);
+            const response = new globalThis.Response(hasBody ? Readable.toWeb(incoming) as unknown as ReadableStream : null, {
+                status,
+                statusText: incoming.statusMessage,
+                headers: responseHeaders
+            });
+            resolve(response as unknown as Response);
+        });
+        outgoing.on('error', reject);
+        if (!request.body) {
+            outgoing.end();
+            return;
+        }
+        // The body is streamed to the socket instead of being copied into memory first
+        Readable.fromWeb(request.body as unknown as NodeReadableStream)
+            .on('error', error => outgoing.destroy(error))
+            .pipe(outgoing);
+    });
+}
+
+/**
+ * Opens a connection to the host of a URL through a SOCKS proxy
+ * socks5:// resolves the host locally in the configured address family, socks5h:// lets the proxy resolve it
+ * @param proxy - SOCKS proxy URL
+ * @param url - Request URL
+ * @returns Socket, wrapped in TLS for https URLs
+ * @throws {Error} If the host cannot be resolved or the proxy fails to connect
+ */
+async function connectThroughSocks(proxy: URL, url: URL): Promise<net.Socket> {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const port = getUrlPort(url);
+    const host = proxy.protocol === 'socks5:' ? (await lookupAddress(hostname, port)).address : hostname;
+    const socket = await connectSocks(proxy, host, port);
+    if (url.protocol !== 'https:') return socket;
+
+    const secure = tls.connect({
+        ...tlsSettings,
+        socket,
+        servername: net.isIP(hostname) ? undefined : hostname,
+        ALPNProtocols: ['http/1.1']
+    });
+    await new Promise<void>((resolve, reject) => {
+        secure.once('secureConnect', resolve);
+        secure.once('error', reject);
+    });
+    return secure;
+}
+
+/**
+ * Fetches a URL through the configured proxy
+ * Used for requests outside the test connections as well (geo IP lookups, DoH, server lists)
+ * @param input - Request URL
+ * @param init - Request options
+ * @returns Response
+ * @throws {Error} If the request fails
+ */
+export async function proxyFetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(input);
+    const proxy = getProxy(url);
+    if (!proxy) {
+        // Fixed addresses of the resolve option apply to these requests as well
+        const pinned = getResolveOverride(url.hostname, getUrlPort(url)) ? await pinUrl(url) : null;
+        return pinned ? fetchPinned(pinned, init) : fetch(url, withTls(init));
+    }
+
+    if (proxy.protocol === 'http:' || proxy.protocol === 'https:') {
+        const options: NetworkRequestInit = { ...withTls(init), proxy: proxy.href };
+        return fetch(url, options);
+    }
+    // Bun's fetch only supports HTTP proxies
+    return nodeFetch(url, init, {
+        createConnection: (_options, oncreate) => {
+            connectThroughSocks(proxy, url).then(
+                socket => oncreate(null, socket),
+                (error: Error) => oncreate(error, undefined as unknown as net.Socket)
+            );
+            return undefined;
+        }
+    });
+}
+
+/**
+ * Fetches a URL over a test connection, applying the network options
+ * Proxied requests are neither pinned nor bound, the proxy opens the connection to the host
+ * @param input - Request URL
+ * @param options - Request options
+ * @returns Response
+ * @throws {Error} If the host cannot be resolved or the request fails
+ */
+export async function networkFetch(input: string | URL, options: RequestInit = {}): Promise<Response> {
+    const url = new URL(input);
+    const init: RequestInit = { ...options, headers: applyRequestHeaders(options.headers as HeadersInit | undefined) };
+    if (getProxy(url)) return proxyFetch(url, init);
+
+    const pinned = await pinUrl(url);
+    if (!pinned) return fetch(url, withTls(init));
+
+    const localAddress = localAddresses[pinned.family];
+    // Bun's fetch cannot bind its connections, node:http can
+    if (localAddress) {
+        // The certificate is verified against the original hostname
+        const servername = net.isIP(pinned.hostname) ? undefined : pinned.hostname;
+        return nodeFetch(pinned.url, init, { host: pinned.host, servername, localAddress });
+    }
+    return fetchPinned(pinned, init);
+}
+
+/**
+ * Fetches a pinned URL with Bun's fetch, keeping the Host header and the certificate name of the original host
+ * @param pinned - Pinned URL
+ * @param init - Request options
+ * @returns Response
+ * @throws {Error} If the request fails
+ */
+function fetchPinned(pinned: PinnedUrl, init: RequestInit): Promise<Response> {
+    const headers: Record<string, string> = {};
+    new Headers(init.headers as HeadersInit | undefined).forEach((value, key) => {
+        headers[key] = value;
+    });
+    headers.host = pinned.host;
+    const options: NetworkRequestInit = {
+        ...withTls(init, net.isIP(pinned.hostname) ? undefined : pinned.hostname),
+        headers
+    };
+    return fetch(pinned.url, options);
+}
+
+/**
+ * Warns once per host that a WebSocket connection does not follow the network options
+ * @param host - WebSocket host
+ * @param message - Warning following the host
+ */
+function warnWebSocket(host: string, message: string): void {
+    if (warnedHosts.has(host)) return;
+    warnedHosts.add(host);
+    logger.warn(`WebSocket to ${host} ${message}`);
+}
+
+/**
+ * Applies the configured proxy and TLS settings to WebSocket client options
+ * Bun's WebSocket supports HTTP proxies only, SOCKS proxies are bypassed with a warning
+ * @param input - WebSocket URL
+ * @param options - Client options
+ * @returns Client options, with the proxy if the connection is proxied
+ */
+export function proxyWebSocket(input: string, options: ClientOptions = {}): ClientOptions {
+    const tlsOptions = getFetchTls();
+    const secured: NetworkClientOptions = tlsOptions ? { ...options, tls: tlsOptions } : options;
+    const proxy = getProxy(new URL(input));
+    if (!proxy) return secured;
+    if (proxy.protocol.startsWith('socks')) {
+        warnWebSocket(new URL(input).host, 'cannot use a SOCKS proxy, it connects directly');
+        return secured;
+    }
+    return { ...secured, proxy: proxy.href } as NetworkClientOptions;
+}
+
+/**
+ * Prepares a WebSocket connection, applying the network options
+ * Proxied connections are neither pinned nor bound
+ * Bun's WebSocket ignores local addresses, and verifies certificates against the URL host so TLS connections cannot be pinned
+ * @param input - WebSocket URL
+ * @param options - Client options
+ * @returns URL and options to connect with
+ * @throws {Error} If a source address or interface is set, or the host cannot be resolved
+ */
+export async function prepareWebSocket(input: string, options: ClientOptions = {}): Promise<{ url: string; options: ClientOptions }> {
+    const proxied: NetworkClientOptions = proxyWebSocket(input, options);
+    if (proxied.proxy) return { url: input, options: proxied };
+
+    const url = new URL(input);
+    const isTls = url.protocol === 'wss:' || url.protocol === 'https:';
+    const bound = networkOptions.source ?? networkOptions.interface;
+    if (bound) {
+        throw new Error(`WebSocket to ${url.host} cannot be sent from ${bound}, WebSockets cannot be bound to a local address`);
+    }
+    const override = getResolveOverride(url.hostname, getUrlPort(url));
+    if (isTls && override) {
+        warnWebSocket(url.host, `cannot be pinned to ${override}, the system resolver is used`);
+    } else if (isTls && hasDnsStrategy()) {
+        warnWebSocket(url.host, `cannot be resolved with ${getDnsStrategy()}, the system resolver is used`);
+    } else if (isTls && networkOptions.family) {
+        warnWebSocket(url.host, `cannot be forced to IPv${networkOptions.family}, the system address selection is used`);
+    }
+    if (isTls) return { url: input, options: proxied };
+
+    const pinned = await pinUrl(url);
+    if (!pinned) return { url: input, options: proxied };
+    return {
+        url: pinned.url.href,
+        options: { ...proxied, headers: { ...proxied.headers, Host: pinned.host } }
+    };
+}
@@ -0,0 +1,229 @@
+import WebSocket from 'ws';
+import { WS_OPTIONS_OOKLA } from '@/constant/fetch';
+import { prepareWebSocket } from '@/models/tools/network';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+/**
+ * Timeout for a single command response in milliseconds
+ */
+const COMMAND_TIMEOUT = 10000;
+
+/**
+ * Converts a server URL to the WebSocket URL of the Ookla command protocol
+ * @param server - Server URL, e.g. https://speedtest.example.com:8080
+ * @returns WebSocket URL, e.g. wss://speedtest.example.com:8080/ws
+ */
+export function toOoklaWebSocketUrl(server: string): string {
+    const url = new URL(server);
+    if (url.protocol === 'ws:' || url.protocol === 'wss:') return url.href;
+    return `${url.protocol === 'https:' ? 'wss' : 'ws'}://${url.host}/ws`;
+}
+
+/**
+ * Creates an AbortError matching the one thrown by fetch
+ * @returns Abort error
+ */
+function createAbortError(): Error {
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Client of the Ookla text command protocol over WebSocket
+ *
+ * Commands are newline terminated text lines:
+ * - `HI` → `HELLO <version>`
+ * - `PING <timestamp>` → `PONG <timestamp>`
+ * - `DOWNLOAD <bytes>` → `<bytes>` bytes of data
+ * - `UPLOAD <bytes> 0` followed by data, `<bytes>` in total → `OK <bytes> <ms>`
+ */
+export class OoklaClient {
+    private readonly queue: Buffer[] = [];
+    private waiter: { resolve: (data: Buffer) => void; reject: (error: Error) => void } | null = null;
+    private failure: Error | null = null;
+
+    private constructor(private readonly ws: WebSocket) {
+        ws.on('message', (data: WebSocket.RawData) => {
+            // Default binaryType 'nodebuffer' always delivers a single Buffer
+            const buffer = data as Buffer;
+            if (this.waiter) {
+                const { resolve } = this.waiter;
+                this.waiter = null;
+                resolve(buffer);
+            } else {
+                this.queue.push(buffer);
+            }
+        });
+        ws.on('error', (error) => this.fail(new Error(`WebSocket error: ${error.message}`)));
+        ws.on('close', () => this.fail(new Error('WebSocket connection closed')));
+    }
+
+    /**
+     * Opens a connection to an Ookla server
+     * @param server - Server URL
+     * @param signal - Optional AbortSignal, closes the connection when aborted
+     * @returns Connected client
+     * @throws {Error} If the connection fails or times out
+     */
+    static async connect(server: string, signal?: AbortSignal): Promise<OoklaClient> {
+        const wsUrl = toOoklaWebSocketUrl(server);
+        logger.debug(`[OoklaClient] Connecting to ${wsUrl}`);
+        const target = await prepareWebSocket(wsUrl, WS_OPTIONS_OOKLA);
+
+        return new Promise<OoklaClient>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(createAbortError());
+                return;
+            }
+
+            const ws = new WebSocket(target.url, target.options);
+            const timeout = setTimeout(() => {
+                ws.terminate();
+                reject(new Error('WebSocket connection timeout'));
+            }, COMMAND_TIMEOUT);
+
+            ws.once('open', () => {
+                clearTimeout(timeout);
+                const client = new OoklaClient(ws);
+                signal?.addEventListener('abort', () => client.fail(createAbortError()), { once: true });
+                resolve(client);
+            });
+            // Failed handshakes can emit more than one error, a once listener would leave the later ones unhandled
+            ws.on('error', (error) => {
+                clearTimeout(timeout);
+                ws.terminate();
+                reject(new Error(`WebSocket error: ${error.message}`));
+            });
+        });
+    }
+
+    /**
+     * Marks the connection as failed and rejects a pending read
+     * @param error - Failure reason
+     */
+    private fail(error: Error): void {
+        if (!this.failure) this.failure = error;
+        if (this.waiter) {
+            const { reject } = this.waiter;
+            this.waiter = null;
+            reject(this.failure);
+        }
+        this.ws.terminate();
+    }
+
+    /**
+     * Reads the next message from the server
+     * @returns Message data
+     * @throws {Error} If the connection fails or no message arrives in time
+     */
+    private next(): Promise<Buffer> {
+        const queued = this.queue.shift();
+        if (queued) return Promise.resolve(queued);
+        if (this.failure) return Promise.reject(this.failure);
+
+        return new Promise<Buffer>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.waiter = null;
+                reject(new Error('Ookla server did not respond in time'));
+            }, COMMAND_TIMEOUT);
+
+            this.waiter = {
+                resolve: (data) => {
+                    clearTimeout(timeout);
+                    resolve(data);
+                },
+                reject: (error) => {
+                    clearTimeout(timeout);
+                    reject(error);
+                }
+            };
+        });
+    }
+
+    /**
+     * Sends a command and reads its single line response
+     * @param command - Command without trailing newline
+     * @param expected - Expected first word of the response
+     * @returns Response line without trailing newline
+     * @throws {Error} If the response does not match
+     */
+    private async command(command: string, expected: string): Promise<string> {
+        this.ws.send(`${command}\n`);
+        const line = (await this.next()).toString().trim();
+        if (!line.startsWith(expected)) {
+            throw new Error(`Unexpected response to ${command.split(' ')[0]}: ${line.slice(0, 64)}`);
+        }
+        return line;
+    }
+
+    /**
+     * Greets the server
+     * @returns Server version reported in the HELLO response
+     */
+    async hello(): Promise<string> {
+        const line = await this.command('HI', 'HELLO');
+        return line.slice('HELLO'.length).trim();
+    }
+
+    /**
+     * Measures the round trip time of a PING command
+     * @returns Round trip time in microseconds
+     */
+    async ping(): Promise<number> {
+        const start = process.hrtime.bigint();
+        await this.command(`PING ${Date.now()}`, 'PONG');
+        return Number(process.hrtime.bigint() - start) / 1000;
+    }
+
+    /**
+     * Requests a number of bytes from the server
+     * @param bytes - Number of bytes to download
+     * @param onData - Optional callback for every received message
+     * @returns Number of bytes received
+     */
+    async download(bytes: number, onData?: (received: number) => void): Promise<number> {
+        this.ws.send(`DOWNLOAD ${bytes}\n`);
+
+        let received = 0;
+        while (received < bytes) {
+            const data = await this.next();
+            received += data.length;
+            onData?.(data.length);
+        }
+        return received;
+    }
+
+    /**
+     * Sends a number of bytes to the server, including the UPLOAD command line
+     * @param bytes - Number of bytes to upload
+     * @returns Number of bytes acknowledged by the server
+     */
+    async upload(bytes: number): Promise<number> {
+        const header = `UPLOAD ${bytes} 0\n`;
+        const payload = Buffer.alloc(Math.max(bytes, header.length), '0');
+        payload.write(header);
+        payload[payload.length - 1] = 0x0a;
+
+        this.ws.send(payload);
+        const line = (await this.next()).toString().trim();
+        if (!line.startsWith('OK')) {
+            throw new Error(`Unexpected response to UPLOAD: ${line.slice(0, 64)}`);
+        }
+        return Number(line.split(' ')[1]) || payload.length;
+    }
+
+    /**
+     * Closes the connection
+     */
+    close(): void {
+        if (this.ws.readyState === WebSocket.OPEN) {
+            this.ws.send('QUIT\n');
+            this.ws.close();
+        } else {
+            this.ws.terminate();
+        }
+    }
+}
@@ -0,0 +1,167 @@
+import { readFile } from 'node:fs/promises';
+import type { HeadersInit } from 'undici';
+import type { OoklaServer } from '@/types';
+import { DEFAULT_FETCH_OPTIONS } from '@/constant/fetch';
+import { OOKLA_DISCOVERY_CANDIDATES } from '@/constant/default';
+import { measureTCPLatency, measureWebSocketLatency } from '@/models/latencyTest';
+import { proxyFetch } from '@/models/tools/network';
+import { toOoklaWebSocketUrl } from '@/models/tools/ooklaClient';
+import { isValidUrl } from '@/utils/common';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+/**
+ * Raw server entry of the JSON API or the XML server list
+ */
+type RawServer = Record<string, string | number | undefined>;
+
+/**
+ * Normalizes a raw server list entry
+ * @param raw - Raw entry from the JSON API or XML attributes
+ * @returns Ookla server, or null if the entry has no usable host
+ */
+function toServer(raw: RawServer): OoklaServer | null {
+    const listUrl = raw.url ? String(raw.url) : '';
+    let host = raw.host ? String(raw.host) : '';
+    let protocol = 'https:';
+
+    try {
+        const parsed = new URL(listUrl);
+        protocol = parsed.protocol;
+        // Older lists have no host attribute, e.g. http://speedtest.example.com:8080/speedtest/upload.php
+        if (!host) host = parsed.host;
+    } catch {
+        // Keep HTTPS for entries without URL
+    }
+
+    if (!host) return null;
+
+    return {
+        id: String(raw.id ?? host),
+        host,
+        url: `${protocol}//${host}`,
+        name: String(raw.name ?? ''),
+        sponsor: String(raw.sponsor ?? ''),
+        country: String(raw.country ?? raw.cc ?? '')
+    };
+}
+
+/**
+ * Parses an Ookla server list in JSON (speedtest.net API) or XML (speedtest-servers.php) format
+ * @param text - Server list content
+ * @returns Ookla servers in list order
+ * @throws {Error} If the content is neither a JSON nor an XML server list
+ */
+export function parseOoklaServerList(text: string): OoklaServer[] {
+    const content = text.trim();
+    let entries: RawServer[];
+
+    if (content.startsWith('[') || content.startsWith('{')) {
+        const data = JSON.parse(content) as RawServer[] | { servers?: RawServer[] };
+        entries = Array.isArray(data) ? data : data.servers ?? [];
+    } else if (content.startsWith('<')) {
+        entries = Array.from(content.matchAll(/<server\s([^>]*?)\/?>/g), ([, attributes]) =>
+            Object.fromEntries(Array.from(attributes.matchAll(/(\w+)="([^"]*)"/g), ([, key, value]) => [key, value]))
+        );
+    } else {
+        throw new Error('Server list is neither JSON nor XML');
+    }
+
+    return entries
+        .map(toServer)
+        .filter((server): server is OoklaServer => server !== null);
+}
+
+/**
+ * Loads an Ookla server list from a URL or a local file
+ * @param source - Server list URL or file path
+ * @returns Ookla servers in list order
+ * @throws {Error} If the list cannot be loaded or contains no servers
+ */
+export async function loadOoklaServers(source: string): Promise<OoklaServer[]> {
+    let text: string;
+
+    if (isValidUrl(source)) {
+        logger.debug(`[loadOoklaServers] Fetching server list: ${source}`);
+        const response = await proxyFetch(source, {
+            headers: {
+                ...DEFAULT_FETCH_OPTIONS.headers,
+                'Accept': 'application/json, text/xml'
+            } as HeadersInit
+        });
+        if (!response.ok) {
+            throw new Error(`Failed to fetch server list: HTTP ${response.status}`);
+        }
+        text = await response.text();
+    } else {
+        logger.debug(`[loadOoklaServers] Reading server list: ${source}`);
+        text = await readFile(source, 'utf8');
+    }
+
+    const servers = parseOoklaServerList(text);
+    if (servers.length === 0) {
+        throw new Error(`No servers found in server list: ${source}`);
+    }
+    return servers;
+}
+
+/**
+ * Measures the ranking latency of a server, TCP connect first, WebSocket handshake as fallback
+ * @param server - Ookla server
+ * @returns Latency in microseconds, or -1 if unreachable
+ */
+async function rankServer(server: OoklaServer): Promise<number> {
+    const tcp = await measureTCPLatency(server.url, 3);
+    if (tcp > 0) return tcp;
+    return measureWebSocketLatency(new URL(toOoklaWebSocketUrl(server.url)));
+}
+
+/**
+ * Ranks the nearest servers of a list by latency and picks the fastest one
+ * @param servers - Ookla servers, nearest first
+ * @param candidates - Number of servers to rank
+ * @returns Ranked servers, fastest first, unreachable servers left out
+ * @throws {Error} If no server is reachable
+ */
+export async function rankOoklaServers(servers: OoklaServer[], candidates = OOKLA_DISCOVERY_CANDIDATES): Promise<OoklaServer[]> {
+    const ranked = await Promise.all(
+        servers.slice(0, candidates).map(async server => ({ ...server, latency: await rankServer(server) }))
+    );
+
+    const reachable = ranked
+        .filter(server => server.latency > 0)
+        .sort((a, b) => a.latency - b.latency);
+
+    for (const server of reachable) {
+        logger.debug(`[rankOoklaServers] ${server.sponsor} (${server.name}) ${server.host}: ${(server.latency / 1000).toFixed(2)}ms`);
+    }
+
+    if (reachable.length === 0) {
+        throw new Error('No reachable Ookla server found');
+    }
+    return reachable;
+}
+
+/**
+ * Discovers the best Ookla server from a server list
+ * @param source - Server list URL or file path
+ * @returns Fastest reachable server
+ * @throws {Error} If the list cannot be loaded or no server is reachable
+ */
+export async function discoverOoklaServer(source: string): Promise<OoklaServer> {
+    const spinner = logger.create('discovery', 'Discovering Ookla servers...');
+    spinner.start();
+
+    try {
+        const servers = await loadOoklaServers(source);
+        spinner.text = `Ranking ${Math.min(servers.length, OOKLA_DISCOVERY_CANDIDATES)} Ookla servers by latency...`;
+
+        const [best] = await rankOoklaServers(servers);
+        spinner.succeed(`Selected Ookla server: ${best.sponsor} (${best.name}) - ${best.host}`);
+        return best;
+    } catch (error) {
+        spinner.fail('Ookla server discovery failed');
+        throw error;
+    }
+}
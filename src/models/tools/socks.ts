@@ -0,0 +1,189 @@
+import net from 'node:net';
+
+/**
+ * Timeout of the proxy connection and handshake in milliseconds
+ */
+const HANDSHAKE_TIMEOUT = 10000;
+
+// SOCKS5 protocol constants (RFC 1928, RFC 1929)
+const VERSION = 5;
+const METHOD_NONE = 0;
+const METHOD_PASSWORD = 2;
+const METHOD_UNACCEPTABLE = 0xff;
+const COMMAND_CONNECT = 1;
+const ADDRESS_IPV4 = 1;
+const ADDRESS_DOMAIN = 3;
+const ADDRESS_IPV6 = 4;
+
+const REPLY_MESSAGES: Record<number, string> = {
+    1: 'general failure',
+    2: 'connection not allowed by ruleset',
+    3: 'network unreachable',
+    4: 'host unreachable',
+    5: 'connection refused',
+    6: 'TTL expired',
+    7: 'command not supported',
+    8: 'address type not supported'
+};
+
+/**
+ * Concatenates byte arrays
+ * @param chunks - Byte arrays
+ * @returns Joined bytes
+ */
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+/**
+ * Reads fixed-size chunks from a socket during the handshake
+ * @param socket - Connected socket
+ * @returns Reader, release returns unread data to the socket and detaches the reader
+ */
+function createReader(socket: net.Socket): { read: (size: number) => Promise<Uint8Array>; release: () => void } {
+    let buffer: Uint8Array = new Uint8Array(0);
+    let pending: { size: number; resolve: (chunk: Uint8Array) => void; reject: (error: Error) => void } | null = null;
+    let failure: Error | null = null;
+
+    const flush = () => {
+        if (!pending) return;
+        if (failure) {
+            pending.reject(failure);
+            pending = null;
+        } else if (buffer.length >= pending.size) {
+            const chunk = buffer.subarray(0, pending.size);
+            buffer = buffer.subarray(pending.size);
+            const { resolve } = pending;
+            pending = null;
+            resolve(chunk);
+        }
+    };
+    const onData = (chunk: Uint8Array) => {
+        buffer = concat([buffer, chunk]);
+        flush();
+    };
+    const onError = (error: Error) => {
+        failure = error;
+        flush();
+    };
+    const onClose = () => onError(new Error('SOCKS proxy closed the connection'));
+
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+
+    return {
+        read: (size) => new Promise((resolve, reject) => {
+            pending = { size, resolve, reject };
+            flush();
+        }),
+        release: () => {
+            socket.off('data', onData);
+            socket.off('error', onError);
+            socket.off('close', onClose);
+            if (buffer.length > 0) socket.unshift(buffer);
+        }
+    };
+}
+
+/**
+ * Encodes the destination of a CONNECT request
+ * @param host - Hostname or IP address
+ * @returns Address type and address
+ */
+function encodeAddress(host: string): Uint8Array {
+    if (net.isIPv4(host)) {
+        return new Uint8Array([ADDRESS_IPV4, ...host.split('.').map(Number)]);
+    }
+    if (net.isIPv6(host)) {
+        const address = new Uint8Array(17);
+        const view = new DataView(address.buffer);
+        address[0] = ADDRESS_IPV6;
+        // Expand "::" into the missing zero groups
+        const [head, tail] = host.split('::');
+        const headGroups = head ? head.split(':') : [];
+        const tailGroups = tail ? tail.split(':') : [];
+        const groups = tail === undefined
+            ? headGroups
+            : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+        groups.forEach((group, index) => view.setUint16(1 + index * 2, Number.parseInt(group, 16)));
+        return address;
+    }
+    const name = new TextEncoder().encode(host);
+    return concat([new Uint8Array([ADDRESS_DOMAIN, name.length]), name]);
+}
+
+/**
+ * Runs the SOCKS5 handshake and CONNECT request on a connected socket
+ * @param socket - Socket connected to the proxy
+ * @param proxy - Proxy URL
+ * @param host - Destination hostname or IP address
+ * @param port - Destination port
+ * @throws {Error} If the proxy rejects the authentication or the connection
+ */
+async function handshake(socket: net.Socket, proxy: URL, host: string, port: number): Promise<void> {
+    const reader = createReader(socket);
+    try {
+        const username = decodeURIComponent(proxy.username);
+        const password = decodeURIComponent(proxy.password);
+        socket.write(new Uint8Array(username ? [VERSION, 2, METHOD_NONE, METHOD_PASSWORD] : [VERSION, 1, METHOD_NONE]));
+
+        const [, method] = await reader.read(2);
+        if (method === METHOD_UNACCEPTABLE) throw new Error('SOCKS proxy accepts none of the offered authentication methods');
+        if (method === METHOD_PASSWORD) {
+            const user = new TextEncoder().encode(username);
+            const pass = new TextEncoder().encode(password);
+            socket.write(concat([new Uint8Array([1, user.length]), user, new Uint8Array([pass.length]), pass]));
+            const [, status] = await reader.read(2);
+            if (status !== 0) throw new Error('SOCKS proxy authentication failed');
+        }
+
+        const portBytes = new Uint8Array([port >> 8, port & 0xff]);
+        socket.write(concat([new Uint8Array([VERSION, COMMAND_CONNECT, 0]), encodeAddress(host), portBytes]));
+
+        const [, reply, , addressType] = await reader.read(4);
+        if (reply !== 0) {
+            throw new Error(`SOCKS proxy could not connect to ${host}:${port}: ${REPLY_MESSAGES[reply] ?? `error ${reply}`}`);
+        }
+        // Skip the bound address and port
+        const addressLength = addressType === ADDRESS_IPV4 ? 4
+            : addressType === ADDRESS_IPV6 ? 16
+                : (await reader.read(1))[0];
+        await reader.read(addressLength + 2);
+    } finally {
+        reader.release();
+    }
+}
+
+/**
+ * Opens a TCP connection through a SOCKS5 proxy
+ * Credentials of the proxy URL are sent with username/password authentication
+ * @param proxy - Proxy URL
+ * @param host - Destination IP address, or hostname resolved by the proxy
+ * @param port - Destination port
+ * @returns Socket connected to the destination through the proxy
+ * @throws {Error} If the proxy cannot be reached or rejects the connection
+ */
+export async function connectSocks(proxy: URL, host: string, port: number): Promise<net.Socket> {
+    const destination = host.replace(/^\[|\]$/g, '');
+    const socket = net.connect(Number(proxy.port) || 1080, proxy.hostname.replace(/^\[|\]$/g, ''));
+    socket.setTimeout(HANDSHAKE_TIMEOUT, () => socket.destroy(new Error('SOCKS proxy timed out')));
+    try {
+        await new Promise<void>((resolve, reject) => {
+            socket.once('connect', resolve);
+            socket.once('error', reject);
+        });
+        await handshake(socket, proxy, destination, port);
+        socket.setTimeout(0);
+        return socket;
+    } catch (error) {
+        socket.destroy();
+        throw error;
+    }
+}
@@ -0,0 +1,155 @@
+import { once } from 'node:events';
+import net from 'node:net';
+import tls from 'node:tls';
+import type { TlsInfo } from '@/types';
+import { getLocalAddress, getTlsSettings, lookupAddress } from '@/models/tools/network';
+import { getUrlPort } from '@/utils/common';
+
+/**
+ * Timeout of the connection and TLS handshake in milliseconds
+ */
+const HANDSHAKE_TIMEOUT = 10000;
+
+const UNTRUSTED_CA = 'the server certificate is issued by an untrusted CA, trust it with --cacert or skip the verification with --insecure';
+
+/**
+ * Explanations of TLS error codes of node:tls and Bun's fetch
+ */
+const TLS_ERRORS: Record<string, string> = {
+    DEPTH_ZERO_SELF_SIGNED_CERT: 'the server certificate is self-signed, trust it with --cacert or skip the verification with --insecure',
+    SELF_SIGNED_CERT_IN_CHAIN: UNTRUSTED_CA,
+    UNABLE_TO_VERIFY_LEAF_SIGNATURE: UNTRUSTED_CA,
+    UNABLE_TO_GET_ISSUER_CERT: UNTRUSTED_CA,
+    UNABLE_TO_GET_ISSUER_CERT_LOCALLY: UNTRUSTED_CA,
+    CERT_HAS_EXPIRED: 'the server certificate has expired',
+    CERT_NOT_YET_VALID: 'the server certificate is not valid yet, check the system clock',
+    ERR_TLS_CERT_ALTNAME_INVALID: 'the server certificate does not match the hostname',
+    ERR_SSL_TLSV1_ALERT_PROTOCOL_VERSION: 'the server supports none of the accepted TLS versions, check --tls-min-version',
+    ERR_SSL_UNSUPPORTED_PROTOCOL: 'the server supports none of the accepted TLS versions, check --tls-min-version',
+    ERR_SSL_TLSV13_ALERT_CERTIFICATE_REQUIRED: 'the server requires a client certificate, provide it with --cert and --key',
+    ERR_SSL_SSLV3_ALERT_BAD_CERTIFICATE: 'the server rejected the client certificate',
+    ERR_SSL_TLSV1_ALERT_UNKNOWN_CA: 'the server does not trust the issuer of the client certificate',
+    ERR_SSL_SSLV3_ALERT_HANDSHAKE_FAILURE: 'the server rejected the TLS handshake, it may require a client certificate or other ciphers'
+};
+
+/**
+ * Checks whether a URL is connected over TLS
+ * @param url - URL
+ * @returns True for https and wss URLs
+ */
+function isTlsUrl(url: URL): boolean {
+    return url.protocol === 'https:' || url.protocol === 'wss:';
+}
+
+/**
+ * Explains a TLS error
+ * @param error - Error of a request or TLS connection
+ * @returns Explanation, or null if it is not a TLS error
+ */
+export function explainTlsError(error: unknown): string | null {
+    const { code, cause } = error as { code?: string; cause?: unknown };
+    if (code && TLS_ERRORS[code]) return TLS_ERRORS[code];
+    if (code?.startsWith('ERR_SSL_') || code?.startsWith('ERR_TLS_')) return `the TLS handshake failed (${code})`;
+    return cause ? explainTlsError(cause) : null;
+}
+
+/**
+ * Opens a TLS connection to the host of a URL
+ * Connects directly, with the TLS settings, resolution and source address of the test connections
+ * @param url - URL connected over TLS
+ * @returns Connected socket after the handshake
+ * @throws {Error} If the connection or the TLS handshake fails
+ */
+async function connectTls(url: URL): Promise<tls.TLSSocket> {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const port = getUrlPort(url);
+    const { address } = await lookupAddress(hostname, port);
+
+    let socket: net.Socket = net.connect({ host: address, port, localAddress: getLocalAddress(address) });
+    const timeout = setTimeout(() => socket.destroy(new Error(`TLS handshake with ${url.host} timed out`)), HANDSHAKE_TIMEOUT);
+    try {
+        await once(socket, 'connect');
+        socket = tls.connect({
+            ...getTlsSettings(),
+            socket,
+            servername: net.isIP(hostname) ? undefined : hostname,
+            ALPNProtocols: ['h2', 'http/1.1']
+        });
+        await once(socket, 'secureConnect');
+        return socket as tls.TLSSocket;
+    } catch (error) {
+        socket.destroy();
+        throw error;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+/**
+ * Sends a request over a TLS connection and explains a rejection
+ * TLS 1.3 servers check client certificates after the handshake and close the connection without a reason
+ * @param socket - Connected socket
+ * @param url - Request URL
+ * @returns Explanation, or null if the server answered
+ */
+function explainRejection(socket: tls.TLSSocket, url: URL): Promise<string | null> {
+    return new Promise(resolve => {
+        const timeout = setTimeout(() => resolve(null), HANDSHAKE_TIMEOUT);
+        const settle = (explanation: string | null) => {
+            clearTimeout(timeout);
+            resolve(explanation);
+        };
+        socket.once('data', () => settle(null));
+        socket.once('error', error => settle(explainTlsError(error)));
+        socket.once('close', () => settle('the server closed the connection after the TLS handshake, it may require a client certificate (--cert and --key)'));
+        socket.write(`HEAD ${url.pathname}${url.search} HTTP/1.1\r\nHost: ${url.host}\r\nConnection: close\r\n\r\n`);
+    });
+}
+
+/**
+ * Explains why the request to a URL failed, if TLS is the cause
+ * Bun's fetch reports most handshake failures without their reason, a connection with node:tls is made to find it
+ * @param url - Request URL
+ * @param error - Error of the request
+ * @returns Explanation, or null if TLS is not the cause
+ */
+export async function explainTlsFailure(url: string, error: unknown): Promise<string | null> {
+    const explanation = explainTlsError(error);
+    const target = new URL(url);
+    if (explanation || !isTlsUrl(target)) return explanation;
+
+    let socket: tls.TLSSocket;
+    try {
+        socket = await connectTls(target);
+    } catch (handshakeError) {
+        return explainTlsError(handshakeError);
+    }
+    try {
+        return await explainRejection(socket, target);
+    } finally {
+        socket.destroy();
+    }
+}
+
+/**
+ * Inspects the TLS session negotiated with the host of a URL
+ * Connects directly, with the TLS settings, resolution and source address of the test connections
+ * @param url - Test endpoint
+ * @returns TLS version, cipher and ALPN protocol, null for URLs without TLS
+ * @throws {Error} If the connection or the TLS handshake fails
+ */
+export async function inspectTls(url: string): Promise<TlsInfo | null> {
+    const target = new URL(url);
+    if (!isTlsUrl(target)) return null;
+
+    const socket = await connectTls(target);
+    try {
+        return {
+            version: socket.getProtocol() ?? 'unknown',
+            cipher: socket.getCipher().name,
+            alpn: socket.alpnProtocol || null
+        };
+    } finally {
+        socket.destroy();
+    }
+}
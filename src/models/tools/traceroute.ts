@@ -0,0 +1,359 @@
+import net from 'node:net';
+import { ptr } from 'bun:ffi';
+import bogon from 'bogon';
+import type { PathHop, PathResult } from '@/types';
+import { DEFAULT_TRACE_OPTIONS } from '@/constant/default';
+import { AF_INET, AF_INET6, bindSocket, CLOCK_REALTIME, EAGAIN, errno, fromSockaddr, getLibc, type Libc, MSG_DONTWAIT, SO_TIMESTAMPNS, SOCK_DGRAM, SOL_SOCKET, toSockaddr } from '@/models/tools/libc';
+import { resolveDns } from '@/models/tools/dnsResolver';
+import { getIpGeoOnly } from '@/models/tools/getGeoIp';
+import { getLocalAddress, getNetworkOptions, lookupAddress } from '@/models/tools/network';
+import { calculateLatencyStats, sleep } from '@/utils/common';
+import Logger from '@/utils/logger';
+
+const logger = new Logger();
+
+const IPPROTO_IP = 0;
+const IP_TTL = 2;
+const IP_RECVERR = 11;
+const IPPROTO_IPV6 = 41;
+const IPV6_UNICAST_HOPS = 16;
+const IPV6_RECVERR = 25;
+const MSG_ERRQUEUE = 0x2000;
+const ECONNREFUSED = 111;
+const SO_EE_ORIGIN_ICMP = 2;
+const SO_EE_ORIGIN_ICMP6 = 3;
+
+// ICMP "time exceeded" types of IPv4 and IPv6
+const TIME_EXCEEDED = { 4: 11, 6: 3 };
+
+/**
+ * First destination port of the probes, same as traceroute
+ */
+const BASE_PORT = 33434;
+
+/**
+ * Size of the probe payload
+ */
+const PAYLOAD_SIZE = 32;
+
+/**
+ * Interval of the probe rounds in milliseconds, also the time a round waits for its replies
+ * Routers and hosts rate limit ICMP errors, faster rounds would show loss that is not there
+ */
+const ROUND_INTERVAL = 1000;
+
+/**
+ * Interval of polling the error queue in milliseconds, RTTs use kernel timestamps and do not depend on it
+ */
+const POLL_INTERVAL = 1;
+
+/**
+ * ICMP error of a probe, read from the socket error queue
+ */
+interface ProbeReply {
+    /** Destination port of the probe, identifies it */
+    port: number;
+    /** Router or host that sent the error */
+    address: string;
+    /** True if the probe expired on the way, false if it was rejected by the target or a filter */
+    expired: boolean;
+    /** Kernel receive time in nanoseconds */
+    time: bigint;
+}
+
+/**
+ * UDP socket sending TTL limited probes
+ *
+ * Uses IP_RECVERR like tracepath: the ICMP errors of the probes are queued on the socket,
+ * so neither raw sockets nor root are needed.
+ */
+class UdpTraceSocket {
+    private readonly payload = new Uint8Array(PAYLOAD_SIZE);
+    private readonly receiveBuffer = new Uint8Array(512);
+    private readonly name = new Uint8Array(28);
+    private readonly control = new Uint8Array(256);
+    private readonly iovec = new BigUint64Array(2);
+    private readonly msghdr = new BigUint64Array(7);
+    private readonly timespec = new BigInt64Array(2);
+    private readonly value = new Int32Array(1);
+
+    private constructor(private readonly lib: Libc, private readonly fd: number, private readonly address: string, private readonly family: 4 | 6) { }
+
+    /**
+     * Opens a UDP socket with extended error reporting
+     * @param address - Target IP address
+     * @param family - Address family
+     * @returns Socket, or null if bun:ffi sockets are not available on this platform
+     * @throws {Error} If the socket cannot be created or bound to the source address
+     */
+    static open(address: string, family: 4 | 6): UdpTraceSocket | null {
+        const lib = getLibc();
+        if (!lib) return null;
+
+        const fd = lib.socket(family === 4 ? AF_INET : AF_INET6, SOCK_DGRAM, 0);
+        if (fd < 0) {
+            throw new Error(`socket failed (errno ${errno(lib)})`);
+        }
+
+        const socket = new UdpTraceSocket(lib, fd, address, family);
+        const source = getLocalAddress(address);
+        if (source) {
+            try {
+                bindSocket(lib, fd, source, family);
+            } catch (error) {
+                socket.close();
+                throw error;
+            }
+        }
+        socket.setOption(family === 4 ? IPPROTO_IP : IPPROTO_IPV6, family === 4 ? IP_RECVERR : IPV6_RECVERR, 1);
+        socket.setOption(SOL_SOCKET, SO_TIMESTAMPNS, 1);
+        return socket;
+    }
+
+    /**
+     * Sets an integer socket option
+     * @param level - Option level
+     * @param option - Option name
+     * @param value - Option value
+     * @throws {Error} If the option cannot be set
+     */
+    private setOption(level: number, option: number, value: number): void {
+        this.value[0] = value;
+        if (this.lib.setsockopt(this.fd, level, option, ptr(this.value), 4) < 0) {
+            throw new Error(`setsockopt ${level}/${option} failed (errno ${errno(this.lib)})`);
+        }
+    }
+
+    /**
+     * Reads the realtime clock, the clock of kernel timestamps
+     * @returns Time in nanoseconds
+     */
+    now(): bigint {
+        this.lib.clock_gettime(CLOCK_REALTIME, ptr(this.timespec));
+        return this.timespec[0] * 1000000000n + this.timespec[1];
+    }
+
+    /**
+     * Sends a probe with a limited TTL
+     * @param ttl - Time to live (hop limit)
+     * @param port - Destination port identifying the probe
+     * @returns Send time in nanoseconds
+     * @throws {Error} If sending fails
+     */
+    send(ttl: number, port: number): bigint {
+        this.setOption(this.family === 4 ? IPPROTO_IP : IPPROTO_IPV6, this.family === 4 ? IP_TTL : IPV6_UNICAST_HOPS, ttl);
+        const sockaddr = toSockaddr(this.address, this.family, port);
+
+        // A pending ICMP error fails the next send once, the error itself stays in the queue
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const sent = this.now();
+            const result = Number(this.lib.sendto(this.fd, ptr(this.payload), this.payload.length, 0, ptr(sockaddr), sockaddr.length));
+            if (result >= 0) return sent;
+        }
+        throw new Error(`sendto failed (errno ${errno(this.lib)})`);
+    }
+
+    /**
+     * Receives a queued ICMP error without blocking
+     * @returns Reply, or null if nothing is queued
+     * @throws {Error} If receiving fails
+     */
+    receive(): ProbeReply | null {
+        // The garbage collector may move the buffers, their pointers are taken on every call
+        this.iovec[0] = BigInt(ptr(this.receiveBuffer));
+        this.iovec[1] = BigInt(this.receiveBuffer.length);
+        // struct msghdr: name, namelen, iov, iovlen, control, controllen, flags
+        this.msghdr[0] = BigInt(ptr(this.name));
+        this.msghdr[1] = BigInt(this.name.length);
+        this.msghdr[2] = BigInt(ptr(this.iovec));
+        this.msghdr[3] = 1n;
+        this.msghdr[4] = BigInt(ptr(this.control));
+        this.msghdr[5] = BigInt(this.control.length);
+        const length = Number(this.lib.recvmsg(this.fd, ptr(this.msghdr), MSG_ERRQUEUE | MSG_DONTWAIT));
+        if (length < 0) {
+            const code = errno(this.lib);
+            if (code === EAGAIN) return null;
+            throw new Error(`recvmsg failed (errno ${code})`);
+        }
+
+        // struct cmsghdr: len, level, type, then the data aligned to 8 bytes
+        const view = new DataView(this.control.buffer);
+        const controlLength = Number(this.msghdr[5]);
+        let reply: Omit<ProbeReply, 'port' | 'time'> | null = null;
+        let time: bigint | null = null;
+
+        for (let offset = 0; offset + 16 <= controlLength;) {
+            const cmsgLength = Number(view.getBigUint64(offset, true));
+            const level = view.getInt32(offset + 8, true);
+            const type = view.getInt32(offset + 12, true);
+            if (cmsgLength < 16) break;
+
+            if (level === SOL_SOCKET && type === SO_TIMESTAMPNS) {
+                time = view.getBigInt64(offset + 16, true) * 1000000000n + view.getBigInt64(offset + 24, true);
+            } else if ((level === IPPROTO_IP && type === IP_RECVERR) || (level === IPPROTO_IPV6 && type === IPV6_RECVERR)) {
+                // struct sock_extended_err: errno, origin, type, code, pad, info, data, then the offender address
+                const origin = view.getUint8(offset + 16 + 4);
+                const icmpType = view.getUint8(offset + 16 + 5);
+                const offender = fromSockaddr(this.control, offset + 32);
+                // Errors raised by the local stack, e.g. no route, carry no hop
+                if (offender && (origin === SO_EE_ORIGIN_ICMP || origin === SO_EE_ORIGIN_ICMP6)) {
+                    reply = {
+                        address: offender.address,
+                        expired: icmpType === TIME_EXCEEDED[this.family] && view.getUint32(offset + 16, true) !== ECONNREFUSED
+                    };
+                }
+            }
+            offset += Math.ceil(cmsgLength / 8) * 8;
+        }
+
+        const destination = fromSockaddr(this.name);
+        if (!reply || !destination) return null;
+        return { ...reply, port: destination.port, time: time ?? this.now() };
+    }
+
+    /**
+     * Closes the socket
+     */
+    close(): void {
+        this.lib.close(this.fd);
+    }
+}
+
+/**
+ * Gets the IP address a path is traced to, resolved like the server information
+ * @param url - Test endpoint
+ * @returns IP address and family
+ * @throws {Error} If the host cannot be resolved
+ */
+async function resolveTarget(url: string): Promise<{ address: string; family: 4 | 6 }> {
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname)) return lookupAddress(hostname);
+
+    // resolveDns skips private addresses, local servers are resolved by the system
+    const { ip } = await resolveDns(url, getNetworkOptions().family ?? null);
+    if (!ip) return lookupAddress(hostname);
+    return { address: ip, family: net.isIPv6(ip) ? 6 : 4 };
+}
+
+/**
+ * Splits the organization of ipinfo into ASN and name
+ * @param org - Organization, e.g. "AS13335 Cloudflare, Inc."
+ * @returns ASN and name, null if unknown
+ */
+function parseOrganization(org?: string): { asn: string | null; org: string | null } {
+    const match = org?.match(/^(AS\d+)\s*(.*)$/);
+    if (match) return { asn: match[1], org: match[2] || null };
+    return { asn: null, org: org || null };
+}
+
+/**
+ * Annotates hops with the ASN and organization of their addresses
+ * Private addresses are not looked up
+ * @param hops - Hops of the path
+ */
+async function annotateHops(hops: PathHop[]): Promise<void> {
+    const addresses = [...new Set(hops.map(hop => hop.address).filter((address): address is string => !!address && !bogon(address)))];
+    const organizations = new Map(await Promise.all(addresses.map(async (address) => {
+        try {
+            return [address, parseOrganization((await getIpGeoOnly(address)).org)] as const;
+        } catch (error) {
+            logger.debug(`[traceroute] Geolocation of ${address} failed: ${error}`);
+            return [address, parseOrganization()] as const;
+        }
+    })));
+
+    for (const hop of hops) {
+        const organization = hop.address ? organizations.get(hop.address) : undefined;
+        if (organization) Object.assign(hop, organization);
+    }
+}
+
+/**
+ * Traces the network path to the test server like mtr
+ * Every round sends one UDP probe per hop, the hops are annotated with ASN and organization
+ * @param url - Test endpoint
+ * @param options - Maximum number of hops and probe rounds
+ * @returns Network path
+ * @throws {Error} If the host cannot be resolved or path analysis is not supported on this platform
+ */
+export async function tracePath(url: string, options: Partial<typeof DEFAULT_TRACE_OPTIONS> = {}): Promise<PathResult> {
+    const { maxHops, rounds } = { ...DEFAULT_TRACE_OPTIONS, ...options };
+    const { address, family } = await resolveTarget(url);
+    const socket = UdpTraceSocket.open(address, family);
+    if (!socket) {
+        throw new Error('Path analysis requires Linux on x64 or arm64');
+    }
+
+    logger.debug(`[traceroute] Tracing ${address}, ${maxHops} hops, ${rounds} rounds`);
+    // Samples and responders of every hop, indexed by TTL - 1
+    const samples: number[][] = Array.from({ length: maxHops }, () => []);
+    const responders: Map<string, number>[] = Array.from({ length: maxHops }, () => new Map());
+    let lastHop = maxHops;
+    let reached = false;
+
+    try {
+        for (let round = 0; round < rounds; round++) {
+            // Probes of a round, keyed by destination port
+            const pending = new Map<number, { ttl: number; sent: bigint }>();
+            for (let ttl = 1; ttl <= lastHop; ttl++) {
+                const port = BASE_PORT + round * maxHops + ttl - 1;
+                pending.set(port, { ttl, sent: socket.send(ttl, port) });
+            }
+
+            const results = new Map<number, number>();
+            const deadline = performance.now() + ROUND_INTERVAL;
+            while (results.size < pending.size && performance.now() < deadline) {
+                const reply = socket.receive();
+                if (!reply) {
+                    await sleep(POLL_INTERVAL);
+                    continue;
+                }
+
+                // Late replies of earlier rounds are skipped
+                const probe = pending.get(reply.port);
+                if (!probe || results.has(probe.ttl)) continue;
+
+                // Some virtualized kernels repeat stale timestamps, use the receive time then
+                const received = reply.time > probe.sent ? reply.time : socket.now();
+                results.set(probe.ttl, Number(received - probe.sent) / 1000);
+                const count = responders[probe.ttl - 1].get(reply.address) ?? 0;
+                responders[probe.ttl - 1].set(reply.address, count + 1);
+
+                // The target or a filter rejected the probe, later hops are not on the path
+                if (!reply.expired && probe.ttl <= lastHop) {
+                    lastHop = probe.ttl;
+                    reached ||= reply.address === address;
+                }
+            }
+
+            for (let ttl = 1; ttl <= lastHop; ttl++) {
+                samples[ttl - 1].push(results.get(ttl) ?? -1);
+            }
+
+            const remaining = deadline - performance.now();
+            if (round < rounds - 1 && remaining > 0) await sleep(remaining);
+        }
+    } finally {
+        socket.close();
+    }
+
+    // Without an answer from the target, silent hops after the last responding one are left out
+    if (!reached) {
+        const responding = responders.slice(0, lastHop).map(counts => counts.size > 0);
+        lastHop = Math.max(1, responding.lastIndexOf(true) + 1);
+    }
+
+    const hops: PathHop[] = samples.slice(0, lastHop).map((hopSamples, index) => {
+        const [responder] = [...responders[index].entries()].sort((a, b) => b[1] - a[1]);
+        return {
+            hop: index + 1,
+            address: responder?.[0] ?? null,
+            asn: null,
+            org: null,
+            stats: calculateLatencyStats(hopSamples)
+        };
+    });
+    await annotateHops(hops);
+
+    return { target: address, protocol: 'udp', reached, hops };
+}
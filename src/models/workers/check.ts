@@ -1,10 +1,13 @@
-import { fetch } from 'undici';
 import { DEFAULT_FETCH_OPTIONS } from '../../constant/fetch';
 import Logger from '../../utils/logger';
+import { OoklaClient } from '../tools/ooklaClient';
+import { networkFetch } from '../tools/network';
+import { explainTlsFailure } from '../tools/tlsInfo';
 const logger = new Logger();
 
 /**
  * Checks if the URL is accessible and returns a valid response
+ * Upload targets are checked with OPTIONS, a PUT or POST could overwrite an object or use up a presigned URL
  * @param {string} url - The URL to check
  * @param {string} referrer - The referrer URL
  * @param {TestType} testType - Type of the test (upload or download)
@@ -21,18 +24,16 @@ export async function checkUrlAvailability(url: string, referrer: string, testTy
             ...(DEFAULT_FETCH_OPTIONS.headers as Record<string, string>),
             'Accept': '*/*',
             'Accept-Language': 'zh-CN,zh;q=0.9',
-            'Cache-Control': 'no-cache',
-            'Content-Type': testType === 'upload' ? 'application/x-www-form-urlencoded' : 'text/plain'
+            'Cache-Control': 'no-cache'
         };
 
         logger.debug(`[checkUrlAvailability] Request headers: ${JSON.stringify(headers)}`);
 
-        const response = await fetch(url, {
+        const response = await networkFetch(url, {
             ...DEFAULT_FETCH_OPTIONS,
-            method: testType === 'upload' ? 'POST' : 'GET',
+            method: testType === 'upload' ? 'OPTIONS' : 'GET',
             headers,
-            signal: controller.signal,
-            body: testType === 'upload' ? 'content=test' : undefined
+            signal: controller.signal
         });
 
         logger.debug(`[checkUrlAvailability] Response status: ${response.status}`);
@@ -52,6 +53,31 @@ export async function checkUrlAvailability(url: string, referrer: string, testTy
             return true;
         }
         logger.error(`[checkUrlAvailability] Error checking URL: ${error}`);
+        const explanation = await explainTlsFailure(url, error);
+        if (explanation) {
+            logger.error(`TLS connection to ${new URL(url).host} failed: ${explanation}`);
+        }
+        return false;
+    }
+}
+
+/**
+ * Checks if an Ookla server accepts connections and answers the HI command
+ * @param {string} server - The server URL
+ * @returns {Promise<boolean>} Promise resolving to true if the server is reachable
+ */
+export async function checkOoklaAvailability(server: string): Promise<boolean> {
+    try {
+        const client = await OoklaClient.connect(server);
+        try {
+            const version = await client.hello();
+            logger.debug(`[checkOoklaAvailability] Server version: ${version}`);
+            return true;
+        } finally {
+            client.close();
+        }
+    } catch (error) {
+        logger.error(`[checkOoklaAvailability] Error checking server: ${error}`);
         return false;
     }
-} 
\ No newline at end of file
+}
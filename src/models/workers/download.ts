@@ -1,5 +1,6 @@
-import { fetch, type HeadersInit } from "undici";
+import type { HeadersInit } from "undici";
 import { DEFAULT_FETCH_OPTIONS } from "@/constant/fetch";
+import { networkFetch } from "@/models/tools/network";
 import Logger from "@/utils/logger";
 import type { TestType } from "@/types";
 
@@ -82,7 +83,7 @@ export async function downloadTestWorker(
 
         while (retryCount < MAX_RETRIES) {
             try {
-                const response = await fetch(testFile, {
+                const response = await networkFetch(testFile, {
                     cache: "no-store",
                     method: "GET",
                     signal,
@@ -0,0 +1,124 @@
+import { OoklaClient } from '@/models/tools/ooklaClient';
+import Logger from '@/utils/logger';
+import type { TestType } from '@/types';
+
+const logger = new Logger();
+
+// Transfer limits of a single worker run
+const MAX_DURATION = 3000; // ms
+const MAX_BYTES = 32 * 1024 * 1024; // 32MB
+
+// Chunk size configuration, chunks are adapted to take about TARGET_TRANSFER_TIME
+const MIN_CHUNK_SIZE = 64 * 1024; // 64KB
+const MAX_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+const INITIAL_CHUNK_SIZE = 1024 * 1024; // 1MB
+const TARGET_TRANSFER_TIME = 200; // ms
+
+/**
+ * Calculates the size of the next chunk from the speed of the last one
+ * @param bytes - Size of the last chunk
+ * @param duration - Transfer time of the last chunk in milliseconds
+ * @returns Next chunk size in bytes
+ */
+function nextChunkSize(bytes: number, duration: number): number {
+    if (duration <= 0) return MAX_CHUNK_SIZE;
+    const optimal = bytes * (TARGET_TRANSFER_TIME / duration);
+    return Math.round(Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, optimal)));
+}
+
+/**
+ * Runs chunked transfers over a single Ookla connection
+ * @param server - Server URL
+ * @param transfer - Transfers one chunk, resolves to the number of bytes transferred
+ * @param onProgress - Optional progress callback
+ * @param signal - Optional AbortSignal
+ * @returns Promise resolving to speed in bps
+ */
+async function runTransfer(
+    server: string,
+    transfer: (client: OoklaClient, chunkSize: number) => Promise<number>,
+    onProgress?: (speed: number, bytesTransferred: number) => void,
+    signal?: AbortSignal
+): Promise<number> {
+    const client = await OoklaClient.connect(server, signal);
+    const startTime = performance.now();
+    let totalBytes = 0;
+
+    try {
+        await client.hello();
+
+        let chunkSize = INITIAL_CHUNK_SIZE;
+        while (totalBytes < MAX_BYTES && performance.now() - startTime < MAX_DURATION) {
+            const chunkStart = performance.now();
+            const bytes = await transfer(client, chunkSize);
+            const now = performance.now();
+
+            totalBytes += bytes;
+            chunkSize = nextChunkSize(bytes, now - chunkStart);
+
+            if (onProgress) {
+                onProgress((totalBytes * 8) / ((now - startTime) / 1000), totalBytes);
+            }
+        }
+
+        return (totalBytes * 8) / ((performance.now() - startTime) / 1000);
+    } catch (err: unknown) {
+        if (err instanceof Error && err.name === 'AbortError') {
+            const durationSeconds = (performance.now() - startTime) / 1000;
+            return durationSeconds > 0 ? (totalBytes * 8) / durationSeconds : 0;
+        }
+        throw err;
+    } finally {
+        client.close();
+    }
+}
+
+/**
+ * Performs a single download test with the Ookla DOWNLOAD command
+ * @param server - Server URL
+ * @param refer - Unused, kept for worker compatibility
+ * @param onProgress - Optional progress callback
+ * @param signal - Optional AbortSignal
+ * @param testType - Test Type
+ * @returns Promise resolving to speed in bps
+ */
+async function ooklaDownloadWorker(
+    server: string,
+    refer?: string,
+    onProgress?: (speed: number, bytesTransferred: number) => void,
+    signal?: AbortSignal,
+    testType?: TestType,
+): Promise<number> {
+    try {
+        return await runTransfer(server, (client, chunkSize) => client.download(chunkSize), onProgress, signal);
+    } catch (err) {
+        logger.debug(`[ooklaDownloadWorker] Error: ${err}`);
+        throw err;
+    }
+}
+
+/**
+ * Performs a single upload test with the Ookla UPLOAD command
+ * @param server - Server URL
+ * @param refer - Unused, kept for worker compatibility
+ * @param onProgress - Optional progress callback
+ * @param signal - Optional AbortSignal
+ * @param testType - Test Type
+ * @returns Promise resolving to speed in bps
+ */
+async function ooklaUploadWorker(
+    server: string,
+    refer?: string,
+    onProgress?: (speed: number, bytesTransferred: number) => void,
+    signal?: AbortSignal,
+    testType?: TestType,
+): Promise<number> {
+    try {
+        return await runTransfer(server, (client, chunkSize) => client.upload(chunkSize), onProgress, signal);
+    } catch (err) {
+        logger.debug(`[ooklaUploadWorker] Error: ${err}`);
+        throw err;
+    }
+}
+
+export { ooklaDownloadWorker, ooklaUploadWorker };
@@ -1,8 +1,9 @@
 import { DEFAULT_FETCH_OPTIONS } from '../../constant/fetch';
 import { isDebugMode } from '../../utils/common';
-import { fetch, type Dispatcher, type BodyInit, type HeadersInit } from 'undici';
+import type { Dispatcher, BodyInit, HeadersInit } from 'undici';
 import Logger from '../../utils/logger';
-import type { TestType } from '../../types';
+import { networkFetch } from '../tools/network';
+import type { TestType, UploadMethod } from '../../types';
 
 const logger = new Logger();
 
@@ -13,6 +14,7 @@ const logger = new Logger();
  * @param onProgress - Optional progress callback
  * @param signal - Optional AbortSignal
  * @param testType - Test Type
+ * @param method - HTTP method, PUT is only used for SingleFile targets
  * @returns Promise resolving to speed in bps
  */
 async function testUploadWorker(
@@ -21,6 +23,7 @@ async function testUploadWorker(
     onProgress?: (speed: number, bytesTransferred: number) => void,
     signal?: AbortSignal,
     testType?: TestType,
+    method: UploadMethod = 'POST',
 ): Promise<number> {
     const startTime = performance.now();
     let totalBytes = 0;
@@ -37,7 +40,7 @@ async function testUploadWorker(
     const CLOUDFLARE_MIN_CHUNK_SIZE = 256 * 1024; // 256KB
     let currentChunkSize = testType === 'LibreSpeed'
         ? LIBRE_SPEED_CHUNK_SIZE
-        : 1024 * 1024; // Initial 1MB for Cloudflare
+        : 1024 * 1024; // Initial 1MB for Cloudflare and SingleFile
 
     /**
      * Calculates current upload speed using sliding window
@@ -63,7 +66,7 @@ async function testUploadWorker(
     /**
      * Creates upload data based on test type and chunk size
      */
-    function createUploadData(size: number, type: TestType): { body: FormData | string; headers: Headers } {
+    function createUploadData(size: number, type: TestType): { body: FormData | string | Uint8Array; headers: Headers } {
         const headers = new Headers(DEFAULT_FETCH_OPTIONS.headers as Record<string, string>);
         const url = new URL(testFile);
         const referer = refer || url.origin;
@@ -83,6 +86,11 @@ async function testUploadWorker(
             return { body: '0'.repeat(size), headers };
         }
 
+        if (type === 'SingleFile') {
+            headers.set('Content-Type', 'application/octet-stream');
+            return { body: new Uint8Array(size), headers };
+        }
+
         throw new Error('Unsupported test type');
     }
 
@@ -107,7 +115,7 @@ async function testUploadWorker(
                     const { body, headers } = createUploadData(currentChunkSize, testType);
 
                     const fetchOptions: Dispatcher.RequestOptions = {
-                        method: 'POST',
+                        method: testType === 'SingleFile' ? method : 'POST',
                         //@ts-ignore 
                         headers: headers as HeadersInit,
                         //@ts-ignore 
@@ -116,7 +124,7 @@ async function testUploadWorker(
                     };
 
                     //@ts-ignore 
-                    const response = await fetch(testFile, fetchOptions);
+                    const response = await networkFetch(testFile, fetchOptions);
 
                     if (!response.ok) {
                         throw new Error(`Upload failed: ${response.statusText}`);
@@ -138,8 +146,8 @@ async function testUploadWorker(
 
                         const currentSpeed = calculateCurrentSpeed();
 
-                        // Only adapt chunk size for Cloudflare
-                        if (testType === 'Cloudflare' && currentSpeed > 0) {
+                        // Only adapt chunk size for Cloudflare and SingleFile
+                        if (testType !== 'LibreSpeed' && currentSpeed > 0) {
                             const targetTransferTime = 200; // ms
                             const optimalChunkSize = (currentSpeed / 8) * (targetTransferTime / 1000);
 
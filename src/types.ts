@@ -17,6 +17,14 @@ export interface ColoResult {
 
 export type TestType = 'LibreSpeed' | 'Cloudflare' | 'SingleFile' | 'Ookla';
 
+export type OutputFormat = 'text' | 'json';
+
+export type ExportFormat = 'csv' | 'md';
+
+export type UploadMethod = 'PUT' | 'POST';
+
+export type IpFamily = 4 | 6;
+
 /**
  * Test Configuration
  * @interface TestConfig
@@ -29,14 +37,67 @@ export interface TestConfig {
     type?: TestType;      // --type <type>, default: SingleFile, options: LibreSpeed, Cloudflare, Ookla
     debug: boolean;      // --debug
     privacy: boolean;     // --privacy
+    format?: OutputFormat; // --format <format>, default: text, options: text, json
+    output?: string;      // --output <file>
+    export?: ExportFormat; // --export <format>, options: csv, md
+    history?: boolean;     // --no-history
+    compare?: number | boolean; // --compare [runs]
+    compareThreshold?: number; // --compare-threshold <percent>
+    expectDownload?: string; // --expect-download <expr>, e.g. ">=200Mbps"
+    expectUpload?: string;   // --expect-upload <expr>
+    expectLatency?: string[]; // --expect-latency <expr>, e.g. "http.avg<40ms", repeatable
+    expectJitter?: string[];  // --expect-jitter <expr>, e.g. "icmp<5ms", repeatable
+    junit?: string;          // --junit <file>
+    latencySamples?: number; // --latency-samples <n>, default: 10
+    serverList?: string;     // --server-list <url|file>, Ookla server list used when --server is omitted
+    uploadUrl?: string;      // --upload-url <url>, upload target of SingleFile type
+    uploadMethod?: UploadMethod; // --upload-method <method>, default: POST
     speedtest?: boolean;   // --no-speedtest
     latency?: boolean;     // --no-latency  
+    loadedLatency?: boolean; // --no-loaded-latency
+    timing?: boolean;      // --timing
+    trace?: boolean;       // --trace
+    maxHops?: number;      // --max-hops <n>, default: 30
+    ipv4?: boolean;        // -4, --ipv4
+    ipv6?: boolean;        // -6, --ipv6
+    dualStack?: boolean;   // --dual-stack
+    interface?: string;    // --interface <name>
+    source?: string;       // --source <ip>
+    proxy?: string;        // --proxy <url>, default: HTTPS_PROXY or ALL_PROXY
+    resolve?: string[];    // --resolve <host:port:addr>, repeatable
+    dns?: string;          // --dns <resolver>, system|doh|dot|<ip>
+    doh?: string[];        // --doh <url>, repeatable
+    header?: string[];     // --header "Name: value", repeatable
+    userAgent?: string;    // --user-agent <ua>
+    basicAuth?: string;    // --basic-auth <user:pass>
+    bearer?: string;       // --bearer <token>
+    cacert?: string;       // --cacert <file>
+    cert?: string;         // --cert <file>
+    key?: string;          // --key <file>
+    insecure?: boolean;    // --insecure
+    tlsMinVersion?: string; // --tls-min-version <version>, 1.0|1.1|1.2|1.3
+    allIps?: boolean;      // --all-ips
+    tcpPort?: number[];    // --tcp-port <ports>, repeatable or comma separated
     upload?: boolean;      // --no-upload
     icmp?: boolean;        // --no-icmp
     tcp?: boolean;         // --no-tcp
     http?: boolean;        // --no-http
 }
 
+/**
+ * Ookla Server List Entry
+ * @interface OoklaServer
+ */
+export interface OoklaServer {
+    id: string;
+    host: string;         // host:port, e.g. speedtest.example.com:8080
+    url: string;          // Server URL used for testing, e.g. https://speedtest.example.com:8080
+    name: string;         // City name
+    sponsor: string;
+    country: string;
+    latency?: number;     // Ranking latency in microseconds, -1 if unreachable
+}
+
 /**
  * Test Display
  * @interface TestDisplay
@@ -48,6 +109,16 @@ export interface TestDisplay {
     results: {
         latency: Record<string, string>;
         speed: Record<string, string>;
+        /** Connection timing, only if it was measured */
+        timing?: Record<string, string>;
+        /** Latency under load, only if it was measured */
+        bufferbloat?: Record<string, string>;
+        /** Network path, only if it was traced */
+        path?: Record<string, string>;
+        /** IPv4 and IPv6 side by side, only with --dual-stack */
+        dualStack?: Record<string, string>;
+        /** Every address of the server side by side, only with --all-ips */
+        addresses?: Record<string, string>;
         info: Record<string, string>;
         progress?: {
             percentage: number;
@@ -55,9 +126,24 @@ export interface TestDisplay {
             transferred: string;
         };
     };
+    tables?: {
+        latency: string[][];
+        speed: string[][];
+        timing?: string[][];
+        bufferbloat?: string[][];
+        path?: string[][];
+        dualStack?: string[][];
+        addresses?: string[][];
+        info: string[][];
+    };
     formattedTables?: {
         latency: string;
         speed: string;
+        timing?: string;
+        bufferbloat?: string;
+        path?: string;
+        dualStack?: string;
+        addresses?: string;
         info: string;
     };
 }
@@ -66,32 +152,206 @@ export interface TestDisplay {
  * Speed Test Options
  * @interface SpeedTestOptions
  */
-export interface SpeedTestOptions {
+export interface SpeedTestOptions extends LatencyMethods {
     testEndpoint: string;
     thread?: number;
     timeout?: number;
     type?: TestType;
+    /** Run download and upload tests, default: true */
+    speedtest?: boolean;
+    /** Run latency test, default: true */
+    latency?: boolean;
+    /** Run upload test, default: true */
+    upload?: boolean;
+    /** Number of latency samples per protocol */
+    latencySamples?: number;
+    /** Ports of the TCP latency probe, default: port of the test endpoint */
+    tcpPorts?: number[];
+    /** Measure latency under load during download and upload, default: true */
+    loadedLatency?: boolean;
+    /** Trace the network path to the server, default: false */
+    trace?: boolean;
+    /** Maximum number of hops of the path analysis */
+    maxHops?: number;
+    /** Upload target of SingleFile type, upload is skipped without it */
+    uploadUrl?: string;
+    /** HTTP method of SingleFile uploads, default: POST */
+    uploadMethod?: UploadMethod;
+    /** Expectations checked against the final result */
+    expectations?: Expectation[];
     // spinner: Ora;
 }
 
+/**
+ * Latency probes to run, all enabled by default
+ * @interface LatencyMethods
+ */
+export interface LatencyMethods {
+    icmp?: boolean;
+    tcp?: boolean;
+    http?: boolean;
+    /** Connection timing breakdown, disabled by default */
+    timing?: boolean;
+    /** Ports of the TCP probe, the first one is reported as TCP, default: port of the test endpoint */
+    tcpPorts?: number[];
+}
+
 /**
  * Latency Stats
  * @interface LatencyStats
  */
 export interface LatencyStats {
+    /** Minimum latency in microseconds */
     min: number;
+    /** Average latency in microseconds */
     avg: number;
+    /** Maximum latency in microseconds */
     max: number;
+    /** Median latency in microseconds */
+    median: number;
+    /** 90th percentile latency in microseconds */
+    p90: number;
+    /** 99th percentile latency in microseconds */
+    p99: number;
+    /** Standard deviation in microseconds */
+    stdDev: number;
+    /** Mean absolute difference between consecutive samples in microseconds */
+    jitter: number;
+    /** Successful samples in measurement order */
+    samples: number[];
+    /** Number of probes sent */
+    sent: number;
+    /** Number of probes answered */
+    received: number;
+    /** Lost probes in percent */
+    loss: number;
+}
+
+/**
+ * Connection timing of the detailed HTTP probe, durations of each phase in microseconds
+ * @interface ConnectionTiming
+ */
+export interface ConnectionTiming {
+    /** DNS lookup, null if the host is an IP address */
+    dns: LatencyStats | null;
+    /** TCP connect */
+    connect: LatencyStats;
+    /** TLS handshake, null for plain HTTP */
+    tls: LatencyStats | null;
+    /** Time to first byte after the request was sent */
+    ttfb: LatencyStats;
+    /** Total time from DNS lookup to the end of the response */
+    total: LatencyStats;
 }
 
 /**
- * Latency Result
+ * Result of a single ICMP echo request
+ * @interface IcmpPacket
+ */
+export interface IcmpPacket {
+    /** Sequence number */
+    seq: number;
+    /** Round trip time in microseconds, -1 if the packet was lost */
+    rtt: number;
+}
+
+/**
+ * ICMP echo details of a latency test
+ * @interface IcmpEcho
+ */
+export interface IcmpEcho {
+    /** Datagram ICMP socket, or the ping binary as fallback */
+    method: 'socket' | 'binary';
+    /** Pinged IP address */
+    address: string;
+    /** Echo requests in sending order */
+    packets: IcmpPacket[];
+}
+
+/**
+ * TCP latency of one probed port
+ * @interface TcpPortLatency
+ */
+export interface TcpPortLatency {
+    port: number;
+    stats: LatencyStats;
+}
+
+/**
+ * Latency Result, a null protocol was skipped
  * @interface LatencyResult
  */
 export interface LatencyResult {
-    tcp: LatencyStats;
-    icmp: LatencyStats;
-    http: LatencyStats;
+    tcp: LatencyStats | null;
+    icmp: LatencyStats | null;
+    http: LatencyStats | null;
+    /** ICMP echo requests, only if ICMP was measured */
+    icmpEcho?: IcmpEcho;
+    /** Why ICMP could not be measured, icmp is null then */
+    icmpUnavailable?: string;
+    /** TCP latency per port, only if more than one port was probed */
+    tcpPorts?: TcpPortLatency[];
+    /** Connection timing, only with --timing */
+    timing?: ConnectionTiming;
+}
+
+/**
+ * Bufferbloat grade, derived from the latency increase under load
+ */
+export type BufferbloatGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+/**
+ * Latency under load of one transfer direction
+ * @interface LoadedLatency
+ */
+export interface LoadedLatency {
+    /** Probe protocol */
+    protocol: 'tcp' | 'http';
+    /** Idle median latency in microseconds, -1 if unknown */
+    idle: number;
+    /** Latency statistics while the link is saturated */
+    loaded: LatencyStats;
+    /** Increase of the median latency in microseconds, -1 if unknown */
+    increase: number;
+    /** Bufferbloat grade, null if no idle or loaded probe succeeded */
+    grade: BufferbloatGrade | null;
+}
+
+/**
+ * Bufferbloat Result, a null direction was skipped
+ * @interface BufferbloatResult
+ */
+export interface BufferbloatResult {
+    download: LoadedLatency | null;
+    upload: LoadedLatency | null;
+}
+
+/**
+ * Hop of the network path
+ * @interface PathHop
+ */
+export interface PathHop {
+    /** TTL of the probes */
+    hop: number;
+    /** Address answering most probes, null if no probe was answered */
+    address: string | null;
+    /** Autonomous system, e.g. "AS13335", null for private or unknown addresses */
+    asn: string | null;
+    org: string | null;
+    stats: LatencyStats;
+}
+
+/**
+ * Network path to the test server
+ * @interface PathResult
+ */
+export interface PathResult {
+    /** Traced IP address */
+    target: string;
+    protocol: 'udp';
+    /** True if the target answered, otherwise the path ends at the last responding hop */
+    reached: boolean;
+    hops: PathHop[];
 }
 
 /**
@@ -176,20 +436,259 @@ export interface DownloadTestConfig extends TestConfigBase {
 * @interface UploadTestConfig
 */
 export interface UploadTestConfig extends TestConfigBase {
-    // ...
+    /** HTTP method of SingleFile uploads, default: POST */
+    uploadMethod?: UploadMethod;
 }
 
 /**
- * Test Result
+ * Test Result, a null phase was skipped
  * @interface TestResult
  */
 export interface TestResult {
-    latency: LatencyResult;
-    download: SpeedStats;
-    upload: SpeedStats;
+    latency: LatencyResult | null;
+    download: SpeedStats | null;
+    upload: SpeedStats | null;
     testEndpoint: string;
     serverName: string;
     timestamp: Date;
+    /** Latency under load, only if it was measured */
+    bufferbloat?: BufferbloatResult;
+    /** Network path, only with --trace */
+    path?: PathResult;
+    /** DNS lookup of the server host, only if it was resolved by DNS */
+    dns?: DnsLookup;
+    /** TLS session with the server, only for servers connected over TLS */
+    tls?: TlsInfo;
+    /** Results of the expectations, only if any were given */
+    assertions?: AssertionResult[];
+}
+
+export type ExpectationOperator = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * Expectation, a threshold on one value of the test result
+ * @interface Expectation
+ */
+export interface Expectation {
+    /** Original expression, e.g. "http.avg<40ms" */
+    expression: string;
+    metric: 'download' | 'upload' | 'latency' | 'jitter';
+    /** Path of the value inside the metric, e.g. "avg", "http.avg" or "http.jitter" */
+    path: string;
+    operator: ExpectationOperator;
+    /** Threshold in bps for speed, in microseconds for latency */
+    value: number;
+}
+
+/**
+ * Assertion Result
+ * @interface AssertionResult
+ */
+export interface AssertionResult {
+    expectation: Expectation;
+    /** Measured value, null if it was not measured */
+    actual: number | null;
+    passed: boolean;
+    /** Not checked because its probe was unavailable, does not fail the test */
+    skipped?: boolean;
+    message: string;
+}
+
+/**
+ * Test Report, the machine-readable document of a whole test run
+ * @interface TestReport
+ */
+export interface TestReport {
+    version: string;
+    config: TestConfig;
+    server: IpGeoResponse | null;
+    client: IpGeoResponse | null;
+    result: TestResult;
+    /** Total time of the test run in seconds */
+    totalTime: number;
+    /** Comparison against previous runs, only with --compare */
+    comparison?: BaselineComparison;
+    /** Results of both address families, only with --dual-stack */
+    dualStack?: DualStackResult;
+    /** Latency and download results of every server address, only with --all-ips */
+    addresses?: AddressResult[];
+}
+
+/**
+ * Dual-stack Result, a null family failed
+ * @interface DualStackResult
+ */
+export interface DualStackResult {
+    ipv4: TestResult | null;
+    ipv6: TestResult | null;
+}
+
+/**
+ * DNS lookup of the server host
+ * @interface DnsLookup
+ */
+export interface DnsLookup {
+    hostname: string;
+    address: string;
+    /** Resolver that answered, e.g. "System DNS" or a DoH provider */
+    resolver: string;
+    /** Lookup time in microseconds */
+    time: number;
+}
+
+/**
+ * TLS session negotiated with the server
+ * @interface TlsInfo
+ */
+export interface TlsInfo {
+    /** Protocol version, e.g. "TLSv1.3" */
+    version: string;
+    /** Cipher suite, e.g. "TLS_AES_128_GCM_SHA256" */
+    cipher: string;
+    /** Protocol selected with ALPN, null if the server selected none */
+    alpn: string | null;
+}
+
+/**
+ * Result of one server address, a null result failed
+ * @interface AddressResult
+ */
+export interface AddressResult {
+    address: string;
+    result: TestResult | null;
+}
+
+/**
+ * Baseline Metric, one compared value of a test run
+ * @interface BaselineMetric
+ */
+export interface BaselineMetric {
+    name: string;
+    unit: 'bps' | 'us';
+    /** Value of the current run */
+    current: number;
+    /** Median of the previous runs */
+    baseline: number;
+    /** Relative change in percent, positive means the value grew */
+    delta: number;
+    /** Whether the change is worse than the threshold */
+    regression: boolean;
+}
+
+/**
+ * Baseline Comparison
+ * @interface BaselineComparison
+ */
+export interface BaselineComparison {
+    /** Number of previous runs in the baseline */
+    runs: number;
+    /** Regression threshold in percent */
+    threshold: number;
+    metrics: BaselineMetric[];
+    regression: boolean;
+}
+
+/**
+ * History Entry, a stored test report
+ * @interface HistoryEntry
+ */
+export interface HistoryEntry {
+    id: number;
+    timestamp: Date;
+    server: string;
+    serverName: string;
+    type: TestType;
+    report: TestReport;
+}
+
+/**
+ * Options of the built-in speed test server
+ * @interface ServeOptions
+ */
+export interface ServeOptions {
+    host: string;
+    port: number;
+    /** Largest response of a single download request in bytes */
+    maxBytes: number;
+}
+
+/**
+ * Options of the ping subcommand
+ * @interface PingOptions
+ */
+export interface PingOptions extends LatencyMethods {
+    /** Target URLs or hostnames */
+    targets: string[];
+    /** Interval between probe rounds in milliseconds */
+    interval: number;
+    /** Number of probe rounds, unlimited if not set */
+    count?: number;
+    /** Number of recent samples the rolling statistics are calculated from */
+    window: number;
+    /** Sample log file written when stopped, false to disable */
+    log: string | boolean;
+    /** Network interface the probes are sent from */
+    interface?: string;
+    /** Local address the probes are sent from */
+    source?: string;
+    /** Fixed addresses of hosts, "host:port:address" */
+    resolve?: string[];
+    /** Resolution strategy, system, doh, dot or the IP address of a DNS server */
+    dns?: string;
+    /** DoH endpoints replacing the default providers */
+    doh?: string[];
+    /** Extra headers of the HTTP probes, "Name: value" */
+    header?: string[];
+    /** User-Agent of the HTTP probes */
+    userAgent?: string;
+    /** Basic authentication of the HTTP probes, "user:password" */
+    basicAuth?: string;
+    /** Bearer token of the HTTP probes */
+    bearer?: string;
+    /** PEM file of CA certificates trusted in addition to the bundled ones */
+    cacert?: string;
+    /** PEM file of the client certificate */
+    cert?: string;
+    /** PEM file of the private key of the client certificate */
+    key?: string;
+    /** Skips the verification of server certificates */
+    insecure?: boolean;
+    /** Lowest accepted TLS version */
+    tlsMinVersion?: string;
+}
+
+/**
+ * Latency protocol of a ping sample
+ */
+export type PingProtocol = 'icmp' | 'tcp' | 'http';
+
+/**
+ * Single probe of the ping subcommand
+ * @interface PingSample
+ */
+export interface PingSample {
+    timestamp: Date;
+    target: string;
+    protocol: PingProtocol;
+    /** Probe round */
+    seq: number;
+    /** Latency in microseconds, -1 if the probe was lost */
+    rtt: number;
+}
+
+/**
+ * History Filter
+ * @interface HistoryFilter
+ */
+export interface HistoryFilter {
+    server?: string;
+    type?: TestType;
+    /** Only entries at or after this time */
+    since?: Date;
+    /** Only entries before this time */
+    until?: Date;
+    /** Maximum number of entries, newest first */
+    limit?: number;
 }
 
 /**
@@ -1,6 +1,8 @@
-import type { TestConfig, SpeedStats, SpeedWindow } from '@/types';
+import type { TestConfig, SpeedStats, SpeedWindow, LatencyStats } from '@/types';
 import psl from 'psl';
 import { Address4, Address6 } from 'ip-address';
+import os from 'node:os';
+import path from 'node:path';
 
 /**
  * Sleep for a given number of milliseconds
@@ -56,6 +58,84 @@ export function calculateStats(samples: number[]): SpeedStats {
     return { min, avg, max, stdDev, error, totalBytes: validSamples.length * 8, duration: validSamples.length, samples: validSamples };
 }
 
+/**
+ * Calculates the median of samples
+ * @param samples - Array of numbers
+ * @returns Median, or 0 if there are no samples
+ */
+export function calculateMedian(samples: number[]): number {
+    if (samples.length === 0) return 0;
+    const sorted = [...samples].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Calculates a percentile of samples with linear interpolation
+ * @param sorted - Samples sorted in ascending order
+ * @param percentile - Percentile between 0 and 100
+ * @returns Percentile value, or 0 if there are no samples
+ */
+export function calculatePercentile(sorted: number[], percentile: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = (percentile / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Calculates statistics from latency samples
+ * @param samples - Latency measurements in microseconds, in measurement order, failures (lost probes) as zero or negative values
+ * @returns Latency statistics, all zero except loss if no sample succeeded
+ */
+export function calculateLatencyStats(samples: number[]): LatencyStats {
+    const validSamples = samples.filter(s => s > 0);
+    const sent = samples.length;
+    const received = validSamples.length;
+    const loss = sent > 0 ? ((sent - received) / sent) * 100 : 0;
+
+    if (validSamples.length === 0) return {
+        min: 0,
+        avg: 0,
+        max: 0,
+        median: 0,
+        p90: 0,
+        p99: 0,
+        stdDev: 0,
+        jitter: 0,
+        samples: [],
+        sent,
+        received,
+        loss
+    };
+
+    const sorted = [...validSamples].sort((a, b) => a - b);
+    const avg = validSamples.reduce((a, b) => a + b, 0) / validSamples.length;
+    const variance = validSamples.reduce((acc, val) => acc + (val - avg) ** 2, 0) / validSamples.length;
+
+    let jitter = 0;
+    for (let i = 1; i < validSamples.length; i++) {
+        jitter += Math.abs(validSamples[i] - validSamples[i - 1]);
+    }
+    jitter = validSamples.length > 1 ? jitter / (validSamples.length - 1) : 0;
+
+    return {
+        min: sorted[0],
+        avg,
+        max: sorted[sorted.length - 1],
+        median: calculateMedian(sorted),
+        p90: calculatePercentile(sorted, 90),
+        p99: calculatePercentile(sorted, 99),
+        stdDev: Math.sqrt(variance),
+        jitter,
+        samples: validSamples,
+        sent,
+        received,
+        loss
+    };
+}
+
 /**
  * Check if debug mode is enabled
  * @returns True if debug mode is enabled, false otherwise
@@ -78,6 +158,43 @@ export function manageDebugMode(s: boolean): void {
     }
 }
 
+/**
+ * Check if silent mode is enabled (no spinners or progress bars on stdout)
+ * @returns True if silent mode is enabled, false otherwise
+ */
+export function isSilentMode(): boolean {
+    return process.env.SILENT === 'true';
+}
+
+/**
+ * Manage silent mode
+ * @param s - True to enable silent mode, false to disable
+ */
+export function manageSilentMode(s: boolean): void {
+    process.env.SILENT = s ? 'true' : 'false';
+}
+
+/**
+ * Get the local data directory, e.g. ~/.local/share/aqua-speed on Linux.
+ * Can be overridden with the AQUA_SPEED_DATA_DIR environment variable.
+ * @returns Data directory path
+ */
+export function getDataDir(): string {
+    if (process.env.AQUA_SPEED_DATA_DIR) {
+        return process.env.AQUA_SPEED_DATA_DIR;
+    }
+
+    const home = os.homedir();
+    switch (process.platform) {
+        case 'win32':
+            return path.join(process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local'), 'aqua-speed');
+        case 'darwin':
+            return path.join(home, 'Library', 'Application Support', 'aqua-speed');
+        default:
+            return path.join(process.env.XDG_DATA_HOME || path.join(home, '.local', 'share'), 'aqua-speed');
+    }
+}
+
 /**
  * Check if a URL is valid
  * @param url - URL to check
@@ -92,6 +209,25 @@ export function isValidUrl(url: string): boolean {
     }
 }
 
+/**
+ * Get the port of a URL, falling back to the default port of its scheme
+ * @param url - URL
+ * @returns Port number, 443 for https and wss, 80 otherwise
+ */
+export function getUrlPort(url: URL): number {
+    if (url.port) return Number(url.port);
+    return url.protocol === 'https:' || url.protocol === 'wss:' ? 443 : 80;
+}
+
+/**
+ * Removes the credentials of a URL, e.g. of a proxy URL
+ * @param url - URL, possibly with "user:password@"
+ * @returns URL without credentials
+ */
+export function stripUrlCredentials(url: string): string {
+    return url.replace(/\/\/[^@/]*@/, '//');
+}
+
 /**
  * Get the domain name from a URL
  * @param url - URL to get the domain name from
@@ -1,9 +1,16 @@
 import { table, type TableUserConfig } from 'table';
-import type { LatencyStats, SpeedStats, TestDisplay, TestResult } from '@/types';
+import { appendFile, readFile, writeFile } from 'node:fs/promises';
+import type { AddressResult, DnsLookup, DualStackResult, LatencyResult, LatencyStats, LoadedLatency, PathHop, SpeedStats, TestDisplay, TestReport, TestResult, TlsInfo } from '@/types';
 import { version } from '#/package.json';
 
 import Logger from './logger';
-const logger = new Logger(); 
+const logger = new Logger();
+
+/** Placeholder shown for skipped tests */
+const SKIPPED = 'Skipped';
+
+/** Placeholder shown for probes that could not run, e.g. ICMP without permission */
+const UNAVAILABLE = 'Unavailable';
 
 /**
  * Base statistics interface containing common properties.
@@ -33,7 +40,8 @@ function formatSpeed(bps: number): string {
  * @returns Formatted Latency, e.g., '30.01ms' or '100.01µs'
  */
 function formatLatency(microseconds: number): string {
-    if (microseconds < 0) return 'N/A';
+    // Results stored by older versions lack some statistics
+    if (!Number.isFinite(microseconds) || microseconds < 0) return 'N/A';
     if (microseconds >= 1000) {
         return `${(microseconds / 1000).toFixed(2)}ms`;
     }
@@ -43,14 +51,31 @@ function formatLatency(microseconds: number): string {
 /**
  * Formats latency statistics
  * @param stats Latency statistics
- * @returns Formatted string like "~ 50.01ms (Min: 20ms, Max: 80ms)"
+ * @returns Formatted string like "~ 50.01ms (Min: 20ms, Max: 80ms, Median: 48ms, P90: 70ms, P99: 79ms, Jitter: 5ms, StdDev: 9ms, Loss: 0.0% (10/10))"
  */
-function formatLatencyStats(stats: LatencyStats): string {
+function formatLatencyStats(stats: LatencyStats | null): string {
+    if (stats === null) return SKIPPED;
     if (!stats) return 'N/A';
+    if (stats.received === 0) return `N/A (Loss: ${formatLoss(stats)})`;
     const avg = formatLatency(stats.avg);
     const min = formatLatency(stats.min);
     const max = formatLatency(stats.max);
-    return `~ ${avg} (Min: ${min}, Max: ${max})`;
+    const median = formatLatency(stats.median);
+    const p90 = formatLatency(stats.p90);
+    const p99 = formatLatency(stats.p99);
+    const jitter = formatLatency(stats.jitter);
+    const stdDev = formatLatency(stats.stdDev);
+    return `~ ${avg} (Min: ${min}, Max: ${max}, Median: ${median}, P90: ${p90}, P99: ${p99}, Jitter: ${jitter}, StdDev: ${stdDev}, Loss: ${formatLoss(stats)})`;
+}
+
+/**
+ * Formats the packet loss of latency statistics
+ * @param stats Latency statistics
+ * @returns Formatted string like "20.0% (8/10)", or 'N/A' for results without probe counts
+ */
+function formatLoss(stats: LatencyStats): string {
+    if (stats.sent === undefined) return 'N/A';
+    return `${stats.loss.toFixed(1)}% (${stats.received}/${stats.sent})`;
 }
 
 /**
@@ -58,7 +83,8 @@ function formatLatencyStats(stats: LatencyStats): string {
  * @param stats Speed statistics
  * @returns Formatted string like "~ 50 Mbps (Min: 20 Mbps, Max: 80 Mbps)"
  */
-function formatSpeedStats(stats: SpeedStats): string {
+function formatSpeedStats(stats: SpeedStats | null): string {
+    if (stats === null) return SKIPPED;
     if (!stats) return 'N/A';
     return `~ ${formatSpeed(stats.avg)} (Min: ${formatSpeed(stats.min)}, Max: ${formatSpeed(stats.max)})`;
 }
@@ -85,46 +111,301 @@ const ensureNumber = (value: unknown): string => {
 /**
  * Generic function to format statistics data.
  * @param stats The statistics data.
+ * @param formatter Optional value formatter, e.g. formatSpeed
  * @returns An array of formatted [min, avg, max] strings.
  */
-function formatStats<T extends BaseStats>(stats: T): string[] {
+function formatStats<T extends BaseStats>(stats: T, formatter?: (value: number) => string): string[] {
+    return [stats.min, stats.avg, stats.max].map(value =>
+        formatter && typeof value === 'number' ? formatter(value) : ensureNumber(value)
+    );
+}
+
+/**
+ * Formats a table row of statistics, or marks it as skipped.
+ * @param stats The statistics data, null if the test was skipped.
+ * @param formatter Value formatter
+ * @returns An array of formatted [min, avg, max] strings.
+ */
+function formatStatsRow<T extends BaseStats>(stats: T | null, formatter: (value: number) => string): string[] {
+    return stats ? formatStats(stats, formatter) : [SKIPPED, SKIPPED, SKIPPED];
+}
+
+/**
+ * Formats a latency table row, or marks it as skipped.
+ * @param stats The latency statistics, null if the protocol was skipped.
+ * @returns An array of formatted [min, avg, max, median, p90, p99, jitter, stdDev, loss] strings.
+ */
+function formatLatencyRow(stats: LatencyStats | null): string[] {
+    if (!stats) return Array(9).fill(SKIPPED);
+    // Every probe was lost, there is no latency to show
+    if (stats.received === 0) return [...Array(8).fill('N/A'), formatLoss(stats)];
     return [
-        ensureNumber(stats.min),
-        ensureNumber(stats.avg),
-        ensureNumber(stats.max)
+        ...formatStats(stats, formatLatency),
+        ...[stats.median, stats.p90, stats.p99, stats.jitter, stats.stdDev].map(formatLatency),
+        formatLoss(stats)
     ];
 }
 
+/**
+ * Formats a bufferbloat table row, or marks it as skipped.
+ * @param loaded The latency under load, null if the direction was skipped.
+ * @returns An array of formatted [protocol, idle, loaded, increase, loss, grade] strings.
+ */
+function formatBufferbloatRow(loaded: LoadedLatency | null): string[] {
+    if (!loaded) return Array(6).fill(SKIPPED);
+    return [
+        loaded.protocol.toUpperCase(),
+        formatLatency(loaded.idle),
+        loaded.loaded.received > 0 ? formatLatency(loaded.loaded.median) : 'N/A',
+        loaded.increase >= 0 ? `+${formatLatency(loaded.increase)}` : 'N/A',
+        formatLoss(loaded.loaded),
+        loaded.grade ?? 'N/A'
+    ];
+}
+
+/**
+ * Formats the latency under load of one direction
+ * @param loaded Latency under load, null if the direction was skipped
+ * @returns Formatted string like "45.00ms (Idle: 12.00ms, +33.00ms, Loss: 0.0% (12/12), Grade: B)"
+ */
+function formatLoadedLatency(loaded: LoadedLatency | null): string {
+    if (!loaded) return SKIPPED;
+    const [, idle, latency, increase, loss, grade] = formatBufferbloatRow(loaded);
+    return `${latency} (Idle: ${idle}, ${increase}, Loss: ${loss}, Grade: ${grade})`;
+}
+
+/**
+ * Formats a network path table row.
+ * @param hop Hop of the path
+ * @returns An array of formatted [hop, address, asn, organization, loss, avg, best, worst, stdDev] strings.
+ */
+function formatPathRow(hop: PathHop): string[] {
+    const answered = hop.stats.received > 0;
+    return [
+        String(hop.hop),
+        hop.address ?? '???',
+        hop.asn ?? '',
+        hop.org ?? '',
+        formatLoss(hop.stats),
+        ...[hop.stats.avg, hop.stats.min, hop.stats.max, hop.stats.stdDev].map(value => answered ? formatLatency(value) : 'N/A')
+    ];
+}
+
+/**
+ * Formats a hop of the network path
+ * @param hop Hop of the path
+ * @returns Formatted string like "192.0.2.1 (AS64500 Example) ~ 12.00ms (Best: 10.00ms, Worst: 15.00ms, Loss: 0.0% (5/5))"
+ */
+function formatPathHop(hop: PathHop): string {
+    const [, address, asn, org, loss, avg, best, worst] = formatPathRow(hop);
+    const owner = [asn, org].filter(Boolean).join(' ');
+    if (hop.stats.received === 0) return `${address} (Loss: ${loss})`;
+    return `${address}${owner ? ` (${owner})` : ''} ~ ${avg} (Best: ${best}, Worst: ${worst}, Loss: ${loss})`;
+}
+
+/**
+ * Metric compared between the address families of a dual-stack run
+ * @interface DualStackMetric
+ */
+interface DualStackMetric {
+    name: string;
+    /** Value of a result, null if it was skipped, undefined if it was not measured */
+    value: (result: TestResult) => number | null | undefined;
+    format: (value: number) => string;
+    /** Difference of the IPv6 value to the IPv4 value */
+    difference: (ipv4: number, ipv6: number) => string;
+}
+
+/**
+ * Formats the relative difference of two values
+ * @param ipv4 IPv4 value
+ * @param ipv6 IPv6 value
+ * @returns Formatted string like "+12.5%"
+ */
+function formatRelativeDifference(ipv4: number, ipv6: number): string {
+    if (ipv4 <= 0) return 'N/A';
+    const delta = (ipv6 - ipv4) / ipv4 * 100;
+    return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}%`;
+}
+
+/**
+ * Formats the difference of two percentages in percentage points
+ * @param ipv4 IPv4 percentage
+ * @param ipv6 IPv6 percentage
+ * @returns Formatted string like "+2.0 pp"
+ */
+function formatPointDifference(ipv4: number, ipv6: number): string {
+    const delta = ipv6 - ipv4;
+    return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)} pp`;
+}
+
+/**
+ * Builds the latency metrics of a protocol
+ * @param label Protocol label
+ * @param key Protocol of the latency result
+ * @returns Average latency and loss metrics
+ */
+function latencyMetrics(label: string, key: 'tcp' | 'icmp' | 'http'): DualStackMetric[] {
+    const stats = (result: TestResult) => result.latency?.[key] ?? null;
+    return [
+        {
+            name: `${label} Latency`,
+            value: result => {
+                const latency = stats(result);
+                if (!latency) return null;
+                return latency.received ? latency.avg : undefined;
+            },
+            format: formatLatency,
+            difference: formatRelativeDifference
+        },
+        {
+            name: `${label} Loss`,
+            value: result => stats(result)?.loss ?? null,
+            format: value => `${value.toFixed(1)}%`,
+            difference: formatPointDifference
+        }
+    ];
+}
+
+const DUAL_STACK_METRICS: DualStackMetric[] = [
+    { name: 'Download', value: result => result.download ? result.download.avg : null, format: formatSpeed, difference: formatRelativeDifference },
+    { name: 'Upload', value: result => result.upload ? result.upload.avg : null, format: formatSpeed, difference: formatRelativeDifference },
+    ...latencyMetrics('TCP', 'tcp'),
+    ...latencyMetrics('ICMP', 'icmp'),
+    ...latencyMetrics('HTTP', 'http')
+];
+
+/**
+ * Formats the results of both address families side by side and updates the display object.
+ * Must be called after formatTestResults, which replaces the display results.
+ * @param dualStack Results of both address families
+ * @param display Test Display
+ */
+function formatDualStackResults(dualStack: DualStackResult, display: TestDisplay): void {
+    const rows = DUAL_STACK_METRICS.map(metric => {
+        const ipv4 = dualStack.ipv4 ? metric.value(dualStack.ipv4) : undefined;
+        const ipv6 = dualStack.ipv6 ? metric.value(dualStack.ipv6) : undefined;
+        const format = (result: TestResult | null, value: number | null | undefined) => {
+            if (!result) return 'Failed';
+            if (value === null) return SKIPPED;
+            return value === undefined ? 'N/A' : metric.format(value);
+        };
+        return [
+            metric.name,
+            format(dualStack.ipv4, ipv4),
+            format(dualStack.ipv6, ipv6),
+            typeof ipv4 === 'number' && typeof ipv6 === 'number' ? metric.difference(ipv4, ipv6) : 'N/A'
+        ];
+    });
+    const dualStackData = [['Metric', 'IPv4', 'IPv6', 'Difference'], ...rows];
+
+    display.results.dualStack = Object.fromEntries(rows.map(([name, ipv4, ipv6, difference]) =>
+        [name, `IPv4: ${ipv4}, IPv6: ${ipv6} (${difference})`]
+    ));
+    if (display.tables) display.tables.dualStack = dualStackData;
+    if (display.formattedTables) display.formattedTables.dualStack = formatTitle('DUAL STACK COMPARISON') + table(dualStackData);
+}
+
+/**
+ * Metrics of the per-address table, the phases run against every address
+ */
+const ADDRESS_METRICS = DUAL_STACK_METRICS.filter(metric => metric.name === 'Download' || metric.name.endsWith('Latency'));
+
+/**
+ * Formats the results of every server address side by side and updates the display object.
+ * Must be called after formatTestResults, which replaces the display results.
+ * @param addresses Results of every address
+ * @param display Test Display
+ */
+function formatAddressResults(addresses: AddressResult[], display: TestDisplay): void {
+    const rows = addresses.map(({ address, result }) => [
+        address,
+        ...ADDRESS_METRICS.map(metric => {
+            if (!result) return 'Failed';
+            const value = metric.value(result);
+            if (value === null) return SKIPPED;
+            return value === undefined ? 'N/A' : metric.format(value);
+        })
+    ]);
+    const headers = ['Address', ...ADDRESS_METRICS.map(metric => metric.name)];
+    const addressData = [headers, ...rows];
+
+    display.results.addresses = Object.fromEntries(rows.map(([address, ...values]) =>
+        [address, values.map((value, i) => `${headers[i + 1]}: ${value}`).join(', ')]
+    ));
+    if (display.tables) display.tables.addresses = addressData;
+    if (display.formattedTables) display.formattedTables.addresses = formatTitle('SERVER ADDRESSES') + table(addressData);
+}
+
+/**
+ * Formats the DNS lookup of the server host
+ * @param lookup DNS lookup
+ * @returns Formatted string like "104.16.0.1 via System DNS (12.30ms)"
+ */
+function formatDnsLookup(lookup: DnsLookup): string {
+    return `${lookup.address} via ${lookup.resolver} (${formatLatency(lookup.time)})`;
+}
+
+/**
+ * Formats the TLS session with the server
+ * @param session TLS session
+ * @returns Version and ALPN protocol, e.g. "TLSv1.3, ALPN h2"
+ */
+function formatTlsSession(session: TlsInfo): string {
+    return session.alpn ? `${session.version}, ALPN ${session.alpn}` : session.version;
+}
+
 /**
  * Formats test results and updates the display object.
  * @param result Test Result
  * @param display Test Display
+ * @param totalTime Optional total time of the test run in seconds
  */
-function formatTestResults(result: TestResult, display: TestDisplay): void {
-    // Prepare default values to ensure type safety
-    const defaultLatency: LatencyStats = { min: 0, avg: 0, max: 0 };
-    const defaultSpeed: SpeedStats = {
-        min: 0, avg: 0, max: 0, stdDev: 0, error: 0,
-        totalBytes: 0,
-        duration: 0,
-        samples: []
-    };
+function formatTestResults(result: TestResult, display: TestDisplay, totalTime?: number): void {
+    // Skipped phases and protocols are null
+    const latency: LatencyResult = result.latency ?? { tcp: null, icmp: null, http: null };
 
     // Latency Table - ensure all values are present
     const latencyData = [
-        ['Protocol', 'Min', 'Avg', 'Max'],
-        ['TCP', ...formatStats<LatencyStats>(result.latency?.tcp || defaultLatency)],
-        ['ICMP', ...formatStats<LatencyStats>(result.latency?.icmp || defaultLatency)],
-        ['HTTP', ...formatStats<LatencyStats>(result.latency?.http || defaultLatency)]
+        ['Protocol', 'Min', 'Avg', 'Max', 'Median', 'P90', 'P99', 'Jitter', 'StdDev', 'Loss'],
+        ...(latency.tcpPorts
+            ? latency.tcpPorts.map(({ port, stats }) => [`TCP :${port}`, ...formatLatencyRow(stats)])
+            : [['TCP', ...formatLatencyRow(latency.tcp)]]),
+        ['ICMP', ...(latency.icmpUnavailable ? Array(9).fill(UNAVAILABLE) : formatLatencyRow(latency.icmp))],
+        ['HTTP', ...formatLatencyRow(latency.http)]
     ];
 
+    // Connection Timing Table - only with --timing
+    const timing = latency.timing;
+    const timingData = timing ? [
+        ['Phase', 'Min', 'Avg', 'Max', 'Median', 'P90', 'P99', 'Jitter', 'StdDev', 'Loss'],
+        ['DNS Lookup', ...formatLatencyRow(timing.dns)],
+        ['TCP Connect', ...formatLatencyRow(timing.connect)],
+        ['TLS Handshake', ...formatLatencyRow(timing.tls)],
+        ['TTFB', ...formatLatencyRow(timing.ttfb)],
+        ['Total', ...formatLatencyRow(timing.total)]
+    ] : undefined;
+
     // Speed Table - ensure all values are present
     const speedData = [
         ['Type', 'Min', 'Avg', 'Max'],
-        ['Download', ...formatStats<SpeedStats>(result.download || defaultSpeed)],
-        ['Upload', ...formatStats<SpeedStats>(result.upload || defaultSpeed)]
+        ['Download', ...formatStatsRow<SpeedStats>(result.download, formatSpeed)],
+        ['Upload', ...formatStatsRow<SpeedStats>(result.upload, formatSpeed)]
     ];
 
+    // Bufferbloat Table - only if latency under load was measured
+    const bufferbloatData = result.bufferbloat ? [
+        ['Phase', 'Protocol', 'Idle', 'Loaded', 'Increase', 'Loss', 'Grade'],
+        ['Download', ...formatBufferbloatRow(result.bufferbloat.download)],
+        ['Upload', ...formatBufferbloatRow(result.bufferbloat.upload)]
+    ] : undefined;
+
+    // Network Path Table - only with --trace
+    const pathData = result.path ? [
+        ['Hop', 'Address', 'ASN', 'Organization', 'Loss', 'Avg', 'Best', 'Worst', 'StdDev'],
+        ...result.path.hops.map(formatPathRow)
+    ] : undefined;
+
     // Info Table - ensure all values are present
     const infoData = [
         ['Item', 'Value'],
@@ -132,6 +413,15 @@ function formatTestResults(result: TestResult, display: TestDisplay): void {
         ['Time', result.timestamp ? result.timestamp.toLocaleString() : 'N/A'],
         ['Version', version || 'N/A']
     ];
+    if (result.dns) {
+        infoData.push(['DNS', formatDnsLookup(result.dns)]);
+    }
+    if (result.tls) {
+        infoData.push(['TLS', formatTlsSession(result.tls)], ['TLS Cipher', result.tls.cipher]);
+    }
+    if (totalTime !== undefined) {
+        infoData.push(['Total Time', `${totalTime.toFixed(2)}s`]);
+    }
 
     const infoConfig: TableUserConfig = {
         columns: {
@@ -143,18 +433,41 @@ function formatTestResults(result: TestResult, display: TestDisplay): void {
     // Update display object
     display.results = {
         latency: {
-            TCP: formatLatencyStats(result.latency?.tcp || defaultLatency),
-            ICMP: formatLatencyStats(result.latency?.icmp || defaultLatency),
-            HTTP: formatLatencyStats(result.latency?.http || defaultLatency)
+            ...(latency.tcpPorts
+                ? Object.fromEntries(latency.tcpPorts.map(({ port, stats }) => [`TCP :${port}`, formatLatencyStats(stats)]))
+                : { TCP: formatLatencyStats(latency.tcp) }),
+            ICMP: latency.icmpUnavailable ? `${UNAVAILABLE} (${latency.icmpUnavailable})` : formatLatencyStats(latency.icmp),
+            HTTP: formatLatencyStats(latency.http)
         },
         speed: {
-            Download: formatSpeedStats(result.download || defaultSpeed),
-            Upload: formatSpeedStats(result.upload || defaultSpeed)
+            Download: formatSpeedStats(result.download),
+            Upload: formatSpeedStats(result.upload)
         },
+        ...(timing ? {
+            timing: {
+                'DNS Lookup': formatLatencyStats(timing.dns),
+                'TCP Connect': formatLatencyStats(timing.connect),
+                'TLS Handshake': formatLatencyStats(timing.tls),
+                TTFB: formatLatencyStats(timing.ttfb),
+                Total: formatLatencyStats(timing.total)
+            }
+        } : {}),
+        ...(result.bufferbloat ? {
+            bufferbloat: {
+                Download: formatLoadedLatency(result.bufferbloat.download),
+                Upload: formatLoadedLatency(result.bufferbloat.upload)
+            }
+        } : {}),
+        ...(result.path ? {
+            path: Object.fromEntries(result.path.hops.map(hop => [`Hop ${hop.hop}`, formatPathHop(hop)]))
+        } : {}),
         info: {
             Server: result.serverName || 'N/A',
             Time: result.timestamp ? result.timestamp.toLocaleString() : 'N/A',
-            Version: version || 'N/A'
+            Version: version || 'N/A',
+            ...(result.dns ? { DNS: formatDnsLookup(result.dns) } : {}),
+            ...(result.tls ? { TLS: formatTlsSession(result.tls), 'TLS Cipher': result.tls.cipher } : {}),
+            ...(totalTime !== undefined ? { 'Total Time': `${totalTime.toFixed(2)}s` } : {})
         }
     };
 
@@ -164,11 +477,269 @@ function formatTestResults(result: TestResult, display: TestDisplay): void {
     logger.debug(`Info Table Data:', ${JSON.stringify(infoData, null, 2)}`);
 
     // Format tables
+    display.tables = {
+        latency: latencyData,
+        speed: speedData,
+        ...(timingData ? { timing: timingData } : {}),
+        ...(bufferbloatData ? { bufferbloat: bufferbloatData } : {}),
+        ...(pathData ? { path: pathData } : {}),
+        info: infoData
+    };
     display.formattedTables = {
         latency: formatTitle('LATENCY TEST RESULTS') + table(latencyData),
         speed: formatTitle('SPEED TEST RESULTS') + table(speedData),
+        ...(timingData ? { timing: formatTitle('CONNECTION TIMING') + table(timingData) } : {}),
+        ...(bufferbloatData ? { bufferbloat: formatTitle('LATENCY UNDER LOAD') + table(bufferbloatData) } : {}),
+        ...(pathData ? { path: formatTitle('NETWORK PATH') + table(pathData) } : {}),
         info: formatTitle('TEST INFORMATION') + table(infoData, infoConfig)
     };
 }
 
-export { formatLatency, formatLatencyStats, formatSpeed, formatSpeedStats, formatTestResults };
+/**
+ * Formats a test report as a JSON document.
+ * Speeds are kept in bps and latencies in microseconds, as measured.
+ * @param report Test Report
+ * @returns JSON string of the whole report
+ */
+function formatJsonReport(report: TestReport): string {
+    return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Stable CSV header, one column per field of a test run.
+ * New columns must only ever be appended, files with an older header get rows cut to their columns.
+ */
+const CSV_HEADER = [
+    'timestamp', 'version', 'type', 'server', 'server_name', 'thread',
+    'download_min_bps', 'download_avg_bps', 'download_max_bps',
+    'upload_min_bps', 'upload_avg_bps', 'upload_max_bps',
+    'tcp_min_ms', 'tcp_avg_ms', 'tcp_max_ms',
+    'icmp_min_ms', 'icmp_avg_ms', 'icmp_max_ms',
+    'http_min_ms', 'http_avg_ms', 'http_max_ms',
+    'total_time_s',
+    'tcp_median_ms', 'tcp_p90_ms', 'tcp_p99_ms', 'tcp_jitter_ms', 'tcp_stddev_ms',
+    'icmp_median_ms', 'icmp_p90_ms', 'icmp_p99_ms', 'icmp_jitter_ms', 'icmp_stddev_ms',
+    'http_median_ms', 'http_p90_ms', 'http_p99_ms', 'http_jitter_ms', 'http_stddev_ms',
+    'tcp_sent', 'tcp_received', 'tcp_loss_pct',
+    'icmp_sent', 'icmp_received', 'icmp_loss_pct',
+    'http_sent', 'http_received', 'http_loss_pct',
+    'download_idle_ms', 'download_loaded_ms', 'download_latency_increase_ms', 'download_loaded_loss_pct', 'download_bufferbloat_grade',
+    'upload_idle_ms', 'upload_loaded_ms', 'upload_latency_increase_ms', 'upload_loaded_loss_pct', 'upload_bufferbloat_grade',
+    'dns_avg_ms', 'connect_avg_ms', 'tls_avg_ms', 'ttfb_avg_ms', 'total_avg_ms'
+];
+
+/**
+ * Escapes a CSV field according to RFC 4180
+ * @param value Field value
+ * @returns Escaped field
+ */
+function escapeCsvField(value: string | number): string {
+    const field = String(value);
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Formats a test report as a single CSV row (without trailing newline)
+ * @param report Test Report
+ * @param columns Number of columns, fewer for files written with an older header
+ * @returns CSV row matching CSV_HEADER
+ */
+function formatCsvRow(report: TestReport, columns = CSV_HEADER.length): string {
+    const { config, result } = report;
+    const timing = result.latency?.timing;
+    const speedFields = (stats?: SpeedStats | null) => stats ? formatStats(stats, v => v.toFixed(0)) : ['', '', ''];
+    const toMs = (v: number) => !Number.isFinite(v) || v < 0 ? '' : (v / 1000).toFixed(2);
+    const latencyFields = (stats?: LatencyStats | null) => stats ? formatStats(stats, toMs) : ['', '', ''];
+    const latencyDetailFields = (stats?: LatencyStats | null) => stats
+        ? [stats.median, stats.p90, stats.p99, stats.jitter, stats.stdDev].map(toMs)
+        : ['', '', '', '', ''];
+    const lossFields = (stats?: LatencyStats | null) => stats && stats.sent !== undefined
+        ? [String(stats.sent), String(stats.received), stats.loss.toFixed(1)]
+        : ['', '', ''];
+    const bufferbloatFields = (loaded?: LoadedLatency | null) => loaded
+        ? [
+            toMs(loaded.idle),
+            loaded.loaded.received > 0 ? toMs(loaded.loaded.median) : '',
+            toMs(loaded.increase),
+            loaded.loaded.loss.toFixed(1),
+            loaded.grade ?? ''
+        ]
+        : ['', '', '', '', ''];
+
+    return [
+        new Date(result.timestamp).toISOString(),
+        report.version,
+        config.type || '',
+        result.testEndpoint,
+        result.serverName,
+        config.thread,
+        ...speedFields(result.download),
+        ...speedFields(result.upload),
+        ...latencyFields(result.latency?.tcp),
+        ...latencyFields(result.latency?.icmp),
+        ...latencyFields(result.latency?.http),
+        report.totalTime.toFixed(2),
+        ...latencyDetailFields(result.latency?.tcp),
+        ...latencyDetailFields(result.latency?.icmp),
+        ...latencyDetailFields(result.latency?.http),
+        ...lossFields(result.latency?.tcp),
+        ...lossFields(result.latency?.icmp),
+        ...lossFields(result.latency?.http),
+        ...bufferbloatFields(result.bufferbloat?.download),
+        ...bufferbloatFields(result.bufferbloat?.upload),
+        ...[timing?.dns, timing?.connect, timing?.tls, timing?.ttfb, timing?.total]
+            .map(stats => stats && stats.received > 0 ? toMs(stats.avg) : '')
+    ].slice(0, columns).map(escapeCsvField).join(',');
+}
+
+/**
+ * Checks that an existing CSV file has the columns of this or an older version
+ * @param file Output file path
+ * @returns Number of columns of the existing header, 0 if the file is new or empty
+ * @throws {Error} If the header is not a prefix of CSV_HEADER, appended rows would not match its columns
+ */
+async function checkCsvHeader(file: string): Promise<number> {
+    const content = await readFile(file, 'utf8').catch(() => '');
+    if (content === '') return 0;
+    const columns = content.split(/\r?\n/, 1)[0].split(',');
+    if (columns.length > CSV_HEADER.length || columns.some((column, index) => column !== CSV_HEADER[index])) {
+        throw new Error(`${file} has other CSV columns, it was not written by aqua-speed or by a newer version, please export to a new file`);
+    }
+    return columns.length;
+}
+
+/**
+ * Appends a test report to a CSV file, writing the header first if the file is new or empty
+ * @param file Output file path
+ * @param report Test Report
+ * @throws {Error} If the file has other columns
+ */
+async function writeCsvReport(file: string, report: TestReport): Promise<void> {
+    const columns = await checkCsvHeader(file);
+    const header = columns === 0 ? `${CSV_HEADER.join(',')}\n` : '';
+    await appendFile(file, `${header}${formatCsvRow(report, columns || CSV_HEADER.length)}\n`, 'utf8');
+}
+
+/**
+ * Renders rows as a GitHub Flavored Markdown table, the first row being the header
+ * @param rows Table rows
+ * @returns Markdown table
+ */
+function formatMarkdownTable(rows: string[][]): string {
+    const escapeCell = (cell: string) => cell.replace(/\|/g, '\\|');
+    const [header, ...body] = rows;
+    return [
+        `| ${header.map(escapeCell).join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...body.map(row => `| ${row.map(escapeCell).join(' | ')} |`)
+    ].join('\n');
+}
+
+/**
+ * Formats the result tables of a test run as a Markdown report
+ * @param display Test Display, after formatTestResults
+ * @returns Markdown report
+ */
+function formatMarkdownReport(display: TestDisplay): string {
+    if (!display.tables) {
+        throw new Error('Test results have not been formatted yet');
+    }
+
+    return [
+        `# Aqua Speed Report - ${display.serverName}`,
+        '## Latency',
+        formatMarkdownTable(display.tables.latency),
+        ...(display.tables.timing ? ['## Connection Timing', formatMarkdownTable(display.tables.timing)] : []),
+        '## Speed',
+        formatMarkdownTable(display.tables.speed),
+        ...(display.tables.bufferbloat ? ['## Latency Under Load', formatMarkdownTable(display.tables.bufferbloat)] : []),
+        ...(display.tables.path ? ['## Network Path', formatMarkdownTable(display.tables.path)] : []),
+        ...(display.tables.dualStack ? ['## Dual Stack', formatMarkdownTable(display.tables.dualStack)] : []),
+        ...(display.tables.addresses ? ['## Server Addresses', formatMarkdownTable(display.tables.addresses)] : []),
+        '## Test Information',
+        formatMarkdownTable(display.tables.info),
+        ''
+    ].join('\n\n');
+}
+
+/**
+ * Writes the Markdown report of a test run, replacing the file if it exists
+ * @param file Output file path
+ * @param display Test Display, after formatTestResults
+ */
+async function writeMarkdownReport(file: string, display: TestDisplay): Promise<void> {
+    await writeFile(file, formatMarkdownReport(display), 'utf8');
+}
+
+/**
+ * Escapes text for XML attributes and content
+ * @param text Raw text
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Formats the assertions of a test report as JUnit XML, one test case per assertion
+ * @param report Test Report
+ * @returns JUnit XML document
+ */
+function formatJUnitReport(report: TestReport): string {
+    const assertions = report.result.assertions ?? [];
+    const failures = assertions.filter(assertion => !assertion.passed && !assertion.skipped).length;
+    const skipped = assertions.filter(assertion => assertion.skipped).length;
+    const timestamp = new Date(report.result.timestamp).toISOString();
+
+    const testCases = assertions.map(({ expectation, passed, skipped, message }) => {
+        const name = escapeXml(`${expectation.metric} ${expectation.expression}`);
+        const openTag = `    <testcase classname="aqua-speed.${expectation.metric}" name="${name}" time="0">`;
+        if (skipped) return `${openTag}\n      <skipped message="${escapeXml(message)}"/>\n    </testcase>`;
+        return passed
+            ? `${openTag}\n      <system-out>${escapeXml(message)}</system-out>\n    </testcase>`
+            : `${openTag}\n      <failure message="${escapeXml(message)}" type="AssertionError">${escapeXml(message)}</failure>\n    </testcase>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="aqua-speed" tests="${assertions.length}" failures="${failures}" skipped="${skipped}" time="${report.totalTime.toFixed(3)}">`,
+        `  <testsuite name="${escapeXml(report.result.serverName)}" tests="${assertions.length}" failures="${failures}" errors="0" skipped="${skipped}" timestamp="${timestamp}" time="${report.totalTime.toFixed(3)}">`,
+        ...testCases,
+        '  </testsuite>',
+        '</testsuites>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Writes the JUnit XML report of a test run, replacing the file if it exists
+ * @param file Output file path
+ * @param report Test Report
+ */
+async function writeJUnitReport(file: string, report: TestReport): Promise<void> {
+    await writeFile(file, formatJUnitReport(report), 'utf8');
+}
+
+export {
+    formatLatency,
+    formatLatencyStats,
+    formatSpeed,
+    formatSpeedStats,
+    formatTestResults,
+    formatDualStackResults,
+    formatAddressResults,
+    formatJsonReport,
+    CSV_HEADER,
+    formatCsvRow,
+    checkCsvHeader,
+    formatMarkdownReport,
+    formatJUnitReport,
+    writeCsvReport,
+    writeMarkdownReport,
+    writeJUnitReport
+};
@@ -1,7 +1,8 @@
 import ora, { type Ora, type Color, type Options as OraOptions } from 'ora';
 import chalk from 'chalk';
 import readline from 'node:readline';
-import { isDebugMode } from '@/utils/common';
+import { Writable } from 'node:stream';
+import { isDebugMode, isSilentMode } from '@/utils/common';
 import cliProgress from 'cli-progress';
 
 /**
@@ -57,6 +58,7 @@ class Logger {
       color: mergedOptions.color,
       spinner: 'pong',
       isEnabled: mergedOptions.enabled,
+      isSilent: isSilentMode(),
       stream: process.stdout,
       discardStdin: false
     });
@@ -124,7 +126,9 @@ class Logger {
       barCompleteChar: '\u2588',
       barIncompleteChar: '\u2591',
       hideCursor: true,
-      ...options
+      ...options,
+      // A non-TTY sink keeps the bar from rendering at all in silent mode
+      ...(isSilentMode() ? { stream: new Writable({ write: (_chunk, _encoding, callback) => callback() }) } : {})
     });
 
     return bar;
@@ -216,7 +220,8 @@ class Logger {
    * @param text - Message to log
    */
   info(text: string): void {
-    console.log(chalk.blue('ℹ️ '), text);
+    const print = isSilentMode() ? console.error : console.log;
+    print(chalk.blue('ℹ️ '), text);
   }
 
   /**
@@ -265,7 +270,8 @@ class Logger {
         }
       }
 
-      console.log(chalk.bgMagentaBright('🔍 '), debugMessage);
+      const print = isSilentMode() ? console.error : console.log;
+      print(chalk.bgMagentaBright('🔍 '), debugMessage);
     }
   }
 }
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import type { LatencyStats, TestResult } from '@/types';
+import { evaluateExpectations, parseExpectation } from '@/models/assertions';
+import { calculateLatencyStats, calculateStats } from '@/utils/common';
+
+describe('parseExpectation', () => {
+    test('parses speed expectations in Mbps by default', () => {
+        expect(parseExpectation('download', '>=200Mbps')).toEqual({ expression: '>=200Mbps', metric: 'download', path: 'avg', operator: '>=', value: 200e6 });
+        expect(parseExpectation('upload', 'min > 50')).toMatchObject({ path: 'min', operator: '>', value: 50e6 });
+        expect(parseExpectation('download', 'max<=1.5Gbps')).toMatchObject({ path: 'max', operator: '<=', value: 1.5e9 });
+    });
+
+    test('parses latency expectations in microseconds', () => {
+        expect(parseExpectation('latency', 'http.avg<40ms')).toMatchObject({ path: 'http.avg', operator: '<', value: 40000 });
+        expect(parseExpectation('latency', 'tcp.p99<=80')).toMatchObject({ path: 'tcp.p99', value: 80000 });
+        expect(parseExpectation('latency', 'icmp == 500us')).toMatchObject({ path: 'icmp.avg', operator: '=', value: 500 });
+        expect(parseExpectation('latency', '<1s')).toMatchObject({ path: 'http.avg', value: 1e6 });
+        expect(parseExpectation('latency', 'http.jitter<5ms')).toMatchObject({ path: 'http.jitter', value: 5000 });
+    });
+
+    test('parses jitter expectations with and without the jitter statistic', () => {
+        expect(parseExpectation('jitter', 'icmp<5ms')).toMatchObject({ metric: 'jitter', path: 'icmp.jitter', value: 5000 });
+        expect(parseExpectation('jitter', 'icmp.jitter<5ms')).toMatchObject({ metric: 'jitter', path: 'icmp.jitter', value: 5000 });
+        expect(parseExpectation('jitter', 'tcp.jitter<=2ms')).toMatchObject({ path: 'tcp.jitter', operator: '<=' });
+        expect(parseExpectation('jitter', '<5ms')).toMatchObject({ path: 'http.jitter' });
+        expect(parseExpectation('jitter', 'jitter<5ms')).toMatchObject({ path: 'http.jitter' });
+    });
+
+    test('rejects invalid expressions', () => {
+        expect(() => parseExpectation('download', 'fast')).toThrow('Invalid download expectation: fast');
+        expect(() => parseExpectation('download', 'p90>100Mbps')).toThrow('Invalid download path');
+        expect(() => parseExpectation('latency', 'http.avg.min<40ms')).toThrow('Invalid latency path');
+        expect(() => parseExpectation('jitter', 'icmp.avg<5ms')).toThrow('Invalid jitter path');
+        expect(() => parseExpectation('latency', 'http<40Mbps')).toThrow('Invalid unit "Mbps"');
+        expect(() => parseExpectation('upload', '>10ms')).toThrow('Invalid unit "ms"');
+    });
+});
+
+describe('evaluateExpectations', () => {
+    /**
+     * Creates a test result with the given latency samples
+     * @param samples - Latency samples of every probe in microseconds
+     * @returns Test result
+     */
+    const createResult = (samples: { tcp?: number[]; icmp?: number[]; http?: number[] }): TestResult => {
+        const stats = (values?: number[]): LatencyStats | null => values ? calculateLatencyStats(values) : null;
+        return {
+            latency: { tcp: stats(samples.tcp), icmp: stats(samples.icmp), http: stats(samples.http) },
+            download: calculateStats([100e6, 250e6, 400e6]),
+            upload: null,
+            testEndpoint: 'https://speed.example.com',
+            serverName: 'example.com',
+            timestamp: new Date()
+        };
+    };
+
+    test('checks speed and latency thresholds', () => {
+        const result = createResult({ http: [10000, 20000, 30000] });
+        const [download, latency, failed] = evaluateExpectations(result, [
+            parseExpectation('download', '>=200Mbps'),
+            parseExpectation('latency', 'http.avg<40ms'),
+            parseExpectation('latency', 'http.max<25ms')
+        ]);
+
+        expect(download).toMatchObject({ passed: true, actual: 250e6 });
+        expect(latency).toMatchObject({ passed: true, actual: 20000 });
+        expect(failed.passed).toBe(false);
+        expect(failed.message).toBe('latency.http.max = 30.00ms, expected < 25.00ms');
+    });
+
+    test('checks the jitter of a probe', () => {
+        // Differences of 2ms and 4ms, a jitter of 3ms
+        const result = createResult({ icmp: [10000, 12000, 8000] });
+        const [loose, strict] = evaluateExpectations(result, [
+            parseExpectation('jitter', 'icmp<5ms'),
+            parseExpectation('jitter', 'icmp.jitter<2ms')
+        ]);
+
+        expect(loose).toMatchObject({ passed: true, actual: 3000 });
+        expect(strict).toMatchObject({ passed: false, actual: 3000 });
+    });
+
+    test('fails values that were not measured', () => {
+        const result = createResult({ tcp: [-1, -1, -1] });
+        const assertions = evaluateExpectations(result, [
+            parseExpectation('latency', 'tcp<40ms'),
+            parseExpectation('latency', 'http<40ms'),
+            parseExpectation('upload', '>10Mbps')
+        ]);
+
+        expect(assertions.map(assertion => assertion.passed)).toEqual([false, false, false]);
+        expect(assertions.map(assertion => assertion.actual)).toEqual([null, null, null]);
+        expect(assertions[2].message).toBe('upload.avg was not measured');
+    });
+
+    test('skips ICMP expectations if ICMP was unavailable', () => {
+        const result = createResult({ http: [10000, 20000] });
+        if (result.latency) result.latency.icmpUnavailable = 'Operation not permitted';
+        const [icmp, http] = evaluateExpectations(result, [
+            parseExpectation('jitter', 'icmp.jitter<5ms'),
+            parseExpectation('latency', 'http<40ms')
+        ]);
+
+        expect(icmp).toMatchObject({ passed: false, skipped: true, actual: null });
+        expect(icmp.message).toContain('ICMP is unavailable: Operation not permitted');
+        expect(http).toMatchObject({ passed: true });
+        expect(http.skipped).toBeUndefined();
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+import { calculateLatencyStats } from '@/utils/common';
+
+describe('calculateLatencyStats', () => {
+    test('calculates jitter from consecutive samples in measurement order', () => {
+        // |30 - 10| + |20 - 30| + |40 - 20| = 50 over three pairs
+        const stats = calculateLatencyStats([10000, 30000, 20000, 40000]);
+        expect(stats.jitter).toBeCloseTo(50000 / 3);
+        // The same samples in sorted order vary less from probe to probe
+        expect(calculateLatencyStats([10000, 20000, 30000, 40000]).jitter).toBe(10000);
+    });
+
+    test('interpolates the median and percentiles between samples', () => {
+        const stats = calculateLatencyStats([50000, 10000, 40000, 20000, 30000, 60000, 70000, 80000, 90000, 100000]);
+        expect(stats.min).toBe(10000);
+        expect(stats.max).toBe(100000);
+        expect(stats.avg).toBe(55000);
+        expect(stats.median).toBe(55000);
+        expect(stats.p90).toBeCloseTo(91000);
+        expect(stats.p99).toBeCloseTo(99100);
+        expect(stats.stdDev).toBeCloseTo(28722.81);
+    });
+
+    test('has no jitter and spread for a single sample', () => {
+        const stats = calculateLatencyStats([12000]);
+        expect(stats.jitter).toBe(0);
+        expect(stats.stdDev).toBe(0);
+        expect(stats.median).toBe(12000);
+        expect(stats.p99).toBe(12000);
+    });
+
+    test('reports lost probes as loss and leaves them out of the statistics', () => {
+        const stats = calculateLatencyStats([10000, -1, 30000, 0, 20000]);
+        expect(stats.sent).toBe(5);
+        expect(stats.received).toBe(3);
+        expect(stats.loss).toBe(40);
+        expect(stats.samples).toEqual([10000, 30000, 20000]);
+        expect(stats.min).toBe(10000);
+        expect(stats.avg).toBe(20000);
+        // Jitter only compares received samples, a loss does not count as a change
+        expect(stats.jitter).toBe(15000);
+    });
+
+    test('reports full loss with zero statistics', () => {
+        const stats = calculateLatencyStats([-1, -1, -1]);
+        expect(stats).toMatchObject({ sent: 3, received: 0, loss: 100, min: 0, avg: 0, median: 0, jitter: 0, samples: [] });
+    });
+
+    test('has no loss without probes', () => {
+        expect(calculateLatencyStats([]).loss).toBe(0);
+    });
+});
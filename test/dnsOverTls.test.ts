@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import { decodeAnswers, encodeQuery } from '@/models/tools/dnsOverTls';
+
+/**
+ * Builds a response to a query by appending answer records
+ * @param query - Query message
+ * @param answers - Encoded answer records
+ * @param rcode - Response code
+ * @returns Response message
+ */
+function buildResponse(query: Uint8Array, answers: number[][], rcode = 0): Uint8Array {
+    const response = new Uint8Array([...query, ...answers.flat()]);
+    const view = new DataView(response.buffer);
+    // Flags: response, recursion desired and available
+    view.setUint16(2, 0x8180 | rcode);
+    view.setUint16(6, answers.length);
+    return response;
+}
+
+/**
+ * Encodes an answer record of class IN
+ * @param name - Encoded owner name, labels or a compression pointer
+ * @param type - Record type
+ * @param data - Record data
+ * @returns Record bytes
+ */
+function record(name: number[], type: number, data: number[]): number[] {
+    return [...name, 0, type, 0, 1, 0, 0, 0x0e, 0x10, data.length >> 8, data.length & 0xff, ...data];
+}
+
+describe('encodeQuery', () => {
+    test('encodes the ID, flags and question', () => {
+        const query = encodeQuery(0x1234, 'www.example.com.', 'AAAA');
+        expect(Buffer.from(query).toString('hex')).toBe([
+            '1234', '0100', '0001', '0000', '0000', '0000',
+            '03777777', '076578616d706c65', '03636f6d', '00',
+            '001c', '0001'
+        ].join(''));
+    });
+});
+
+describe('decodeAnswers', () => {
+    const query = encodeQuery(0x4242, 'www.example.com', 'A');
+
+    test('follows a compressed CNAME to the addresses of its target', () => {
+        const response = buildResponse(query, [
+            // www.example.com (pointer to the question) CNAME example.com (pointer into the question)
+            record([0xc0, 12], 5, [0xc0, 16]),
+            // example.com A records, the owner again compressed
+            record([0xc0, 16], 1, [192, 0, 2, 1]),
+            record([7, ...new TextEncoder().encode('example'), 3, 0x63, 0x6f, 0x6d, 0], 1, [192, 0, 2, 2])
+        ]);
+        expect(decodeAnswers(response, 0x4242, 'A')).toEqual(['192.0.2.1', '192.0.2.2']);
+    });
+
+    test('formats AAAA records like the URL parser', () => {
+        const aaaaQuery = encodeQuery(7, 'example.com', 'AAAA');
+        const response = buildResponse(aaaaQuery, [
+            record([0xc0, 12], 28, [0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1])
+        ]);
+        expect(decodeAnswers(response, 7, 'AAAA')).toEqual(['2001:db8::1']);
+        // Records of the other type are skipped
+        expect(decodeAnswers(response, 7, 'A')).toEqual([]);
+    });
+
+    test('returns no addresses for NXDOMAIN', () => {
+        expect(decodeAnswers(buildResponse(query, [], 3), 0x4242, 'A')).toEqual([]);
+    });
+
+    test('rejects errors and responses to other queries', () => {
+        expect(() => decodeAnswers(buildResponse(query, [], 2), 0x4242, 'A')).toThrow('DNS server returned error code 2');
+        expect(() => decodeAnswers(buildResponse(query, []), 0x4243, 'A')).toThrow('Invalid DNS response');
+        expect(() => decodeAnswers(query.subarray(0, 10), 0x4242, 'A')).toThrow('Invalid DNS response');
+    });
+
+    test('rejects truncated names', () => {
+        // The message ends within the name of the question
+        const response = buildResponse(query, []).subarray(0, 20);
+        expect(() => decodeAnswers(response, 0x4242, 'A')).toThrow('Truncated DNS response');
+    });
+});
@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { TestDisplay, TestReport } from '@/types';
+import { DEFAULT_CONFIG } from '@/controllers/processOptions';
+import { calculateLatencyStats, calculateStats } from '@/utils/common';
+import { checkCsvHeader, formatCsvRow, formatMarkdownReport, formatTestResults, writeCsvReport, writeMarkdownReport } from '@/utils/format';
+
+/**
+ * Creates a test report with fixed results
+ * @returns Test report
+ */
+function createReport(): TestReport {
+    return {
+        version: '1.0.4',
+        config: { ...DEFAULT_CONFIG, server: 'https://speed.example.com', type: 'Cloudflare', thread: 4 },
+        server: null,
+        client: null,
+        result: {
+            latency: {
+                tcp: calculateLatencyStats([10000, 12000, 14000]),
+                icmp: null,
+                http: calculateLatencyStats([20000, -1, 30000])
+            },
+            download: calculateStats([100e6, 200e6, 300e6]),
+            upload: null,
+            testEndpoint: 'https://speed.example.com',
+            serverName: 'Example, Inc.',
+            timestamp: new Date('2026-01-02T03:04:05.000Z')
+        },
+        totalTime: 12.345
+    };
+}
+
+/**
+ * Creates an empty display object
+ * @returns Test display
+ */
+function createDisplay(): TestDisplay {
+    return { serverName: 'Example', flags: [], testInfo: {}, results: { latency: {}, speed: {}, info: {} } };
+}
+
+describe('formatCsvRow', () => {
+    test('formats a report as one row of the CSV columns', async () => {
+        const header = await checkCsvHeader(path.join(os.tmpdir(), 'aqua-speed-missing.csv'));
+        expect(header).toBe(0);
+
+        const fields = formatCsvRow(createReport()).split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+        expect(fields.slice(0, 9)).toEqual([
+            '2026-01-02T03:04:05.000Z', '1.0.4', 'Cloudflare', 'https://speed.example.com', '"Example, Inc."', '4',
+            '100000000', '200000000', '300000000'
+        ]);
+        // Skipped upload and ICMP leave their columns empty
+        expect(fields.slice(9, 12)).toEqual(['', '', '']);
+        expect(fields.slice(12, 15)).toEqual(['10.00', '12.00', '14.00']);
+        expect(fields.slice(15, 18)).toEqual(['', '', '']);
+        expect(fields[21]).toBe('12.35');
+    });
+
+    test('cuts the row to fewer columns', () => {
+        expect(formatCsvRow(createReport(), 3)).toBe('2026-01-02T03:04:05.000Z,1.0.4,Cloudflare');
+    });
+});
+
+describe('writeCsvReport', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await mkdtemp(path.join(os.tmpdir(), 'aqua-speed-'));
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    test('writes the header once and appends rows', async () => {
+        const file = path.join(dir, 'new.csv');
+        await writeCsvReport(file, createReport());
+        await writeCsvReport(file, createReport());
+
+        const lines = (await readFile(file, 'utf8')).trimEnd().split('\n');
+        expect(lines).toHaveLength(3);
+        expect(lines[0].startsWith('timestamp,version,type,server,')).toBe(true);
+        expect(lines[1]).toBe(lines[2]);
+        expect(await checkCsvHeader(file)).toBe(lines[0].split(',').length);
+    });
+
+    test('appends rows matching the columns of an older header', async () => {
+        const file = path.join(dir, 'old.csv');
+        await writeFile(file, 'timestamp,version,type,server,server_name,thread\n');
+        await writeCsvReport(file, createReport());
+
+        const lines = (await readFile(file, 'utf8')).trimEnd().split('\n');
+        expect(lines[1]).toBe('2026-01-02T03:04:05.000Z,1.0.4,Cloudflare,https://speed.example.com,"Example, Inc.",4');
+    });
+
+    test('refuses files with other columns', async () => {
+        const file = path.join(dir, 'other.csv');
+        await writeFile(file, 'date,speed\n2026-01-01,100\n');
+
+        await expect(writeCsvReport(file, createReport())).rejects.toThrow('has other CSV columns');
+        expect(await readFile(file, 'utf8')).toBe('date,speed\n2026-01-01,100\n');
+    });
+});
+
+describe('formatMarkdownReport', () => {
+    test('renders the result tables', () => {
+        const display = createDisplay();
+        formatTestResults(createReport().result, display, 12.345);
+        const markdown = formatMarkdownReport(display);
+
+        expect(markdown.startsWith('# Aqua Speed Report - Example\n')).toBe(true);
+        expect(markdown).toContain('| Protocol | Min | Avg | Max | Median | P90 | P99 | Jitter | StdDev | Loss |');
+        expect(markdown).toContain('| ICMP | Skipped |');
+        expect(markdown).toContain('## Speed');
+        expect(markdown).toContain('| Total Time | 12.35s |');
+    });
+
+    test('requires formatted results', () => {
+        expect(() => formatMarkdownReport(createDisplay())).toThrow('Test results have not been formatted yet');
+    });
+
+    test('replaces the report file', async () => {
+        const display = createDisplay();
+        formatTestResults(createReport().result, display);
+        const file = path.join(os.tmpdir(), `aqua-speed-${process.pid}.md`);
+        try {
+            await writeFile(file, 'old report');
+            await writeMarkdownReport(file, display);
+            expect(await readFile(file, 'utf8')).toBe(formatMarkdownReport(display));
+        } finally {
+            await rm(file, { force: true });
+        }
+    });
+});
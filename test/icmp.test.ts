@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { checksum, isEchoReply, readTimestamp } from '@/models/tools/icmp';
+import { AF_INET, AF_INET6, SO_TIMESTAMPNS, SOL_SOCKET, toSockaddr } from '@/models/tools/libc';
+
+describe('toSockaddr', () => {
+    test('builds sockaddr_in with the port in network byte order', () => {
+        const sockaddr = toSockaddr('192.0.2.1', 4, 33434);
+        const view = new DataView(sockaddr.buffer);
+        expect(sockaddr.length).toBe(16);
+        expect(view.getUint16(0, true)).toBe(AF_INET);
+        expect(view.getUint16(2)).toBe(33434);
+        expect([...sockaddr.subarray(4, 8)]).toEqual([192, 0, 2, 1]);
+    });
+
+    test('expands compressed IPv6 addresses', () => {
+        const sockaddr = toSockaddr('2001:db8::1', 6);
+        const view = new DataView(sockaddr.buffer);
+        expect(sockaddr.length).toBe(28);
+        expect(view.getUint16(0, true)).toBe(AF_INET6);
+        expect(Buffer.from(sockaddr.subarray(8, 24)).toString('hex')).toBe('20010db8000000000000000000000001');
+        expect(Buffer.from(toSockaddr('::1', 6).subarray(8, 24)).toString('hex')).toBe('00000000000000000000000000000001');
+    });
+
+    test('reads IPv4-mapped tails and ignores the zone index', () => {
+        expect(Buffer.from(toSockaddr('::ffff:192.0.2.1', 6).subarray(8, 24)).toString('hex')).toBe('00000000000000000000ffffc0000201');
+        expect(Buffer.from(toSockaddr('fe80::1%eth0', 6).subarray(8, 24)).toString('hex')).toBe('fe800000000000000000000000000001');
+    });
+});
+
+describe('checksum', () => {
+    test('makes the message sum to zero', () => {
+        const message = new Uint8Array([8, 0, 0, 0, 0, 1, 0, 7, 1, 2, 3]);
+        const sum = checksum(message);
+        message[2] = sum >> 8;
+        message[3] = sum & 0xff;
+        expect(checksum(message)).toBe(0);
+    });
+});
+
+describe('isEchoReply', () => {
+    const reply = (type: number, seq: number) => new Uint8Array([type, 0, 0, 0, 0, 42, seq >> 8, seq & 0xff, 1, 2]);
+
+    test('matches the reply type of the family and the sequence number', () => {
+        expect(isEchoReply(reply(0, 258), 4, 258)).toBe(true);
+        expect(isEchoReply(reply(129, 7), 6, 7)).toBe(true);
+        expect(isEchoReply(reply(0, 7), 6, 7)).toBe(false);
+        // Late replies of earlier requests
+        expect(isEchoReply(reply(0, 6), 4, 7)).toBe(false);
+    });
+
+    test('skips other ICMP messages and truncated replies', () => {
+        expect(isEchoReply(reply(8, 7), 4, 7)).toBe(false);
+        expect(isEchoReply(reply(0, 7).subarray(0, 7), 4, 7)).toBe(false);
+    });
+
+    test('reads messages at an offset of their buffer', () => {
+        const buffer = new Uint8Array(64);
+        buffer.set(reply(0, 9), 16);
+        expect(isEchoReply(buffer.subarray(16, 26), 4, 9)).toBe(true);
+    });
+});
+
+describe('readTimestamp', () => {
+    const control = (level: number, type: number) => {
+        const data = new Uint8Array(64);
+        const view = new DataView(data.buffer);
+        view.setBigUint64(0, 32n, true);
+        view.setInt32(8, level, true);
+        view.setInt32(12, type, true);
+        view.setBigInt64(16, 1700000000n, true);
+        view.setBigInt64(24, 123456789n, true);
+        return data;
+    };
+
+    test('reads the kernel receive time in nanoseconds', () => {
+        expect(readTimestamp(control(SOL_SOCKET, SO_TIMESTAMPNS), 32)).toBe(1700000000123456789n);
+    });
+
+    test('returns null without a timestamp', () => {
+        expect(readTimestamp(control(SOL_SOCKET, SO_TIMESTAMPNS), 0)).toBeNull();
+        expect(readTimestamp(control(0, SO_TIMESTAMPNS), 32)).toBeNull();
+    });
+});
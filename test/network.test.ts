@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { applyRequestHeaders, configureNetwork, getResolveOverride, isProxied, lookupAddress } from '@/models/tools/network';
+
+afterEach(() => {
+    configureNetwork({});
+});
+
+describe('--resolve', () => {
+    test('pins a host and port to an address', async () => {
+        configureNetwork({ resolve: ['Speed.Example.com:443:192.0.2.10', 'speed.example.com:80:[2001:db8::10]'] });
+        expect(getResolveOverride('speed.example.com', 443)).toBe('192.0.2.10');
+        expect(getResolveOverride('speed.example.com', 80)).toBe('2001:db8::10');
+        expect(getResolveOverride('speed.example.com', 8080)).toBeUndefined();
+        expect(getResolveOverride('other.example.com', 443)).toBeUndefined();
+        // Without a port, any entry of the host matches
+        expect(getResolveOverride('SPEED.example.com')).toBe('192.0.2.10');
+        expect(await lookupAddress('speed.example.com', 80)).toEqual({ address: '2001:db8::10', family: 6 });
+    });
+
+    test('rejects malformed entries', () => {
+        for (const entry of ['speed.example.com:443', 'speed.example.com:0:192.0.2.10', 'speed.example.com:65536:192.0.2.10', 'speed.example.com:443:not-an-ip']) {
+            expect(() => configureNetwork({ resolve: [entry] })).toThrow(`Invalid resolve entry ${entry}`);
+        }
+    });
+
+    test('rejects a pinned address of the other family', async () => {
+        configureNetwork({ resolve: ['speed.example.com:443:192.0.2.10'], family: 6 });
+        await expect(lookupAddress('speed.example.com', 443)).rejects.toThrow('192.0.2.10 is not an IPv6 address');
+    });
+});
+
+describe('request headers', () => {
+    test('adds, replaces and removes headers of a request', () => {
+        configureNetwork({ headers: ['X-Api-Key:  abc ', 'accept: application/json', 'Cache-Control:'] });
+        expect(applyRequestHeaders({ Accept: '*/*', 'Cache-Control': 'no-cache', Range: 'bytes=0-1' })).toEqual({
+            'x-api-key': 'abc',
+            accept: 'application/json',
+            range: 'bytes=0-1'
+        });
+    });
+
+    test('lets --header take precedence over the user agent and authentication', () => {
+        configureNetwork({ userAgent: 'aqua-speed/test', basicAuth: 'bench:secret' });
+        expect(applyRequestHeaders()).toEqual({
+            'user-agent': 'aqua-speed/test',
+            authorization: `Basic ${Buffer.from('bench:secret').toString('base64')}`
+        });
+
+        configureNetwork({ basicAuth: 'bench:secret', bearer: 'token' });
+        expect(applyRequestHeaders().authorization).toBe('Bearer token');
+
+        configureNetwork({ userAgent: 'aqua-speed/test', bearer: 'token', headers: ['User-Agent: curl/8.0', 'Authorization:'] });
+        expect(applyRequestHeaders()).toEqual({ 'user-agent': 'curl/8.0' });
+    });
+
+    test('rejects malformed headers and basic authentication', () => {
+        expect(() => configureNetwork({ headers: ['X-Api-Key abc'] })).toThrow('Invalid header X-Api-Key abc');
+        expect(() => configureNetwork({ headers: ['Bad Name: abc'] })).toThrow('Invalid header');
+        expect(() => configureNetwork({ basicAuth: 'secret' })).toThrow('Invalid basic authentication, expected user:password');
+    });
+});
+
+describe('NO_PROXY', () => {
+    const environment = { NO_PROXY: process.env.NO_PROXY, no_proxy: process.env.no_proxy, HTTP_PROXY: process.env.HTTP_PROXY, http_proxy: process.env.http_proxy };
+    const setEnv = (name: string, value?: string) => {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+    };
+
+    afterEach(() => {
+        for (const [name, value] of Object.entries(environment)) setEnv(name, value);
+    });
+
+    test('bypasses the proxy for matching hosts, domains and ports', () => {
+        setEnv('no_proxy');
+        process.env.NO_PROXY = 'localhost, .internal.example.com,*.lan speed.example.com:8080,[::1],2001:db8::1,[2001:db8::2]:8443';
+        configureNetwork({ proxy: 'http://127.0.0.1:3128' });
+
+        expect(isProxied(new URL('http://localhost:8080/'))).toBe(false);
+        expect(isProxied(new URL('https://internal.example.com/'))).toBe(false);
+        expect(isProxied(new URL('https://a.internal.example.com/'))).toBe(false);
+        expect(isProxied(new URL('http://printer.LAN/'))).toBe(false);
+        expect(isProxied(new URL('http://speed.example.com:8080/'))).toBe(false);
+        expect(isProxied(new URL('http://[::1]:3000/'))).toBe(false);
+        expect(isProxied(new URL('http://[2001:db8::1]/'))).toBe(false);
+        expect(isProxied(new URL('https://[2001:db8::2]:8443/'))).toBe(false);
+        expect(isProxied(new URL('https://[2001:db8::2]/'))).toBe(true);
+
+        expect(isProxied(new URL('https://speed.example.com/'))).toBe(true);
+        expect(isProxied(new URL('https://notinternal.example.com/'))).toBe(true);
+        expect(isProxied(new URL('https://lan/'))).toBe(false);
+        expect(isProxied(new URL('https://example.org/'))).toBe(true);
+    });
+
+    test('bypasses the proxy for every host with a wildcard', () => {
+        process.env.NO_PROXY = '*';
+        configureNetwork({ proxy: 'http://127.0.0.1:3128' });
+        expect(isProxied(new URL('https://speed.example.com/'))).toBe(false);
+    });
+
+    test('marks plain HTTP as proxied by HTTP_PROXY without a configured proxy', () => {
+        setEnv('NO_PROXY');
+        setEnv('no_proxy');
+        setEnv('http_proxy');
+        process.env.HTTP_PROXY = 'http://127.0.0.1:3128';
+        expect(isProxied(new URL('http://speed.example.com/'))).toBe(true);
+        expect(isProxied(new URL('https://speed.example.com/'))).toBe(false);
+    });
+});
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import { OoklaClient, toOoklaWebSocketUrl } from '@/models/tools/ooklaClient';
+
+/**
+ * Upload progress of a stub connection
+ */
+interface StubState {
+    uploadExpected: number;
+    uploadReceived: number;
+}
+
+/**
+ * Starts a WebSocket server speaking the Ookla text command protocol
+ * @returns Running server
+ */
+function startOoklaStub(): Server {
+    return Bun.serve<StubState>({
+        port: 0,
+        hostname: '127.0.0.1',
+        fetch(request, server) {
+            if (new URL(request.url).pathname === '/ws' && server.upgrade(request, { data: { uploadExpected: 0, uploadReceived: 0 } })) return;
+            return new Response('Not Found', { status: 404 });
+        },
+        websocket: {
+            message(ws, message) {
+                const data = typeof message === 'string' ? Buffer.from(message) : message;
+                if (ws.data.uploadExpected > 0) {
+                    ws.data.uploadReceived += data.length;
+                } else {
+                    const [command, argument] = data.subarray(0, 64).toString().split('\n')[0].split(' ');
+                    switch (command) {
+                        case 'HI': ws.send('HELLO 2.11 (2.11.0) 2024-01-01.0000.abcdef\n'); return;
+                        case 'PING': ws.send(`PONG ${argument}\n`); return;
+                        case 'DOWNLOAD': {
+                            // Sent in chunks like a real server
+                            let remaining = Number(argument);
+                            while (remaining > 0) {
+                                const chunk = Math.min(remaining, 16384);
+                                ws.send(new Uint8Array(chunk).fill(0x78));
+                                remaining -= chunk;
+                            }
+                            return;
+                        }
+                        case 'UPLOAD':
+                            ws.data.uploadExpected = Number(argument);
+                            ws.data.uploadReceived = data.length;
+                            break;
+                        default:
+                            ws.send(`ERROR unknown command ${command}\n`);
+                            return;
+                    }
+                }
+                if (ws.data.uploadReceived >= ws.data.uploadExpected) {
+                    ws.send(`OK ${ws.data.uploadReceived} 5\n`);
+                    ws.data.uploadExpected = 0;
+                }
+            }
+        }
+    });
+}
+
+describe('toOoklaWebSocketUrl', () => {
+    test('maps HTTP and HTTPS servers to the /ws endpoint', () => {
+        expect(toOoklaWebSocketUrl('https://speedtest.example.com:8080')).toBe('wss://speedtest.example.com:8080/ws');
+        expect(toOoklaWebSocketUrl('http://speedtest.example.com:8080/speedtest/upload.php')).toBe('ws://speedtest.example.com:8080/ws');
+    });
+
+    test('keeps WebSocket URLs', () => {
+        expect(toOoklaWebSocketUrl('ws://127.0.0.1:8080/custom')).toBe('ws://127.0.0.1:8080/custom');
+    });
+});
+
+describe('OoklaClient', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(() => {
+        server = startOoklaStub();
+        url = `http://127.0.0.1:${server.port}`;
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    test('greets the server', async () => {
+        const client = await OoklaClient.connect(url);
+        try {
+            expect(await client.hello()).toBe('2.11 (2.11.0) 2024-01-01.0000.abcdef');
+        } finally {
+            client.close();
+        }
+    });
+
+    test('measures the PING round trip', async () => {
+        const client = await OoklaClient.connect(url);
+        try {
+            const rtt = await client.ping();
+            expect(rtt).toBeGreaterThan(0);
+            expect(rtt).toBeLessThan(1e6);
+        } finally {
+            client.close();
+        }
+    });
+
+    test('downloads the requested bytes', async () => {
+        const client = await OoklaClient.connect(url);
+        const chunks: number[] = [];
+        try {
+            expect(await client.download(100000, received => chunks.push(received))).toBe(100000);
+            expect(chunks.length).toBe(7);
+            expect(chunks.reduce((sum, chunk) => sum + chunk, 0)).toBe(100000);
+        } finally {
+            client.close();
+        }
+    });
+
+    test('uploads the requested bytes', async () => {
+        const client = await OoklaClient.connect(url);
+        try {
+            expect(await client.upload(65536)).toBe(65536);
+            // The connection stays usable for further commands
+            expect(await client.ping()).toBeGreaterThan(0);
+        } finally {
+            client.close();
+        }
+    });
+
+    test('fails to connect to a server without the command protocol', async () => {
+        await expect(OoklaClient.connect(`ws://127.0.0.1:${server.port}/other`)).rejects.toThrow('WebSocket error');
+    });
+
+    test('aborts a pending read', async () => {
+        const controller = new AbortController();
+        const client = await OoklaClient.connect(url, controller.signal);
+        const download = client.download(1e9);
+        controller.abort();
+        await expect(download).rejects.toThrow('The operation was aborted');
+    });
+});
@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import type { OoklaServer } from '@/types';
+import { parseOoklaServerList, rankOoklaServers } from '@/models/tools/ooklaServers';
+
+describe('parseOoklaServerList', () => {
+    test('parses the JSON API', () => {
+        const servers = parseOoklaServerList(JSON.stringify([
+            { id: '1234', host: 'speedtest.example.com:8080', url: 'http://speedtest.example.com:8080/speedtest/upload.php', name: 'Tokyo', sponsor: 'Example', country: 'Japan' },
+            { id: 5678, host: 'speed.example.net:8080', name: 'Osaka', sponsor: 'Other', cc: 'JP' }
+        ]));
+
+        expect(servers).toEqual([
+            { id: '1234', host: 'speedtest.example.com:8080', url: 'http://speedtest.example.com:8080', name: 'Tokyo', sponsor: 'Example', country: 'Japan' },
+            { id: '5678', host: 'speed.example.net:8080', url: 'https://speed.example.net:8080', name: 'Osaka', sponsor: 'Other', country: 'JP' }
+        ]);
+    });
+
+    test('parses a JSON object with a servers list', () => {
+        const servers = parseOoklaServerList(JSON.stringify({ servers: [{ id: 1, host: 'a.example.com:8080' }] }));
+        expect(servers.map(server => server.host)).toEqual(['a.example.com:8080']);
+    });
+
+    test('parses the XML server list', () => {
+        const servers = parseOoklaServerList(`<?xml version="1.0" encoding="UTF-8"?>
+<settings>
+<servers>
+<server url="http://speedtest.example.com:8080/speedtest/upload.php" lat="35.6" lon="139.7" name="Tokyo" country="Japan" cc="JP" sponsor="Example" id="1234" host="speedtest.example.com:8080" />
+<server url="https://legacy.example.org/speedtest/upload.php" name="Osaka" cc="JP" sponsor="Legacy" id="42"/>
+</servers>
+</settings>`);
+
+        expect(servers).toEqual([
+            { id: '1234', host: 'speedtest.example.com:8080', url: 'http://speedtest.example.com:8080', name: 'Tokyo', sponsor: 'Example', country: 'Japan' },
+            // Older lists have no host attribute, it is taken from the URL
+            { id: '42', host: 'legacy.example.org', url: 'https://legacy.example.org', name: 'Osaka', sponsor: 'Legacy', country: 'JP' }
+        ]);
+    });
+
+    test('skips entries without host', () => {
+        expect(parseOoklaServerList('[{ "id": 1, "name": "Nowhere" }]')).toEqual([]);
+    });
+
+    test('rejects other content', () => {
+        expect(() => parseOoklaServerList('speedtest.example.com:8080')).toThrow('Server list is neither JSON nor XML');
+    });
+});
+
+describe('rankOoklaServers', () => {
+    let server: Server;
+    let closedPort: number;
+
+    /**
+     * Creates a server entry on the local host
+     * @param id - Server ID
+     * @param port - Port
+     * @returns Ookla server
+     */
+    const localServer = (id: string, port: number): OoklaServer => ({
+        id,
+        host: `127.0.0.1:${port}`,
+        url: `http://127.0.0.1:${port}`,
+        name: 'Local',
+        sponsor: `Stub ${id}`,
+        country: ''
+    });
+
+    beforeAll(() => {
+        server = Bun.serve({ port: 0, hostname: '127.0.0.1', fetch: () => new Response('OK') });
+        // A stopped server leaves a port nothing listens on
+        const closed = Bun.serve({ port: 0, hostname: '127.0.0.1', fetch: () => new Response('OK') });
+        closedPort = closed.port;
+        closed.stop(true);
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    test('ranks reachable servers and leaves out unreachable ones', async () => {
+        const ranked = await rankOoklaServers([localServer('down', closedPort), localServer('up', server.port)]);
+
+        expect(ranked.map(entry => entry.id)).toEqual(['up']);
+        expect(ranked[0].latency).toBeGreaterThan(0);
+    });
+
+    test('ranks only the nearest candidates', async () => {
+        await expect(rankOoklaServers([localServer('down', closedPort), localServer('up', server.port)], 1))
+            .rejects.toThrow('No reachable Ookla server found');
+    });
+});
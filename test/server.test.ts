@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import { startSpeedTestServer } from '@/models/server';
+import { runSpeedTest } from '@/controllers/runSpeedTest';
+import { manageSilentMode } from '@/utils/common';
+
+/**
+ * Download and upload run for at least 5 seconds each
+ */
+const SPEED_TEST_TIMEOUT = 60000;
+
+describe('built-in server', () => {
+    let server: Server;
+    let endpoint: string;
+
+    beforeAll(() => {
+        manageSilentMode(true);
+        server = startSpeedTestServer({ host: '127.0.0.1', port: 0, maxBytes: 100 * 1024 * 1024 });
+        endpoint = `http://127.0.0.1:${server.port}`;
+    });
+
+    afterAll(() => {
+        server.stop(true);
+        manageSilentMode(false);
+    });
+
+    test('serves a Cloudflare speed test', async () => {
+        // ICMP needs raw sockets, loaded latency would only lengthen the test
+        const result = await runSpeedTest({ testEndpoint: endpoint, type: 'Cloudflare', thread: 2, icmp: false, latencySamples: 3, loadedLatency: false });
+
+        expect(result.testEndpoint).toBe(endpoint);
+        expect(result.latency?.icmp).toBeNull();
+        expect(result.latency?.tcp?.avg).toBeGreaterThan(0);
+        expect(result.latency?.http?.avg).toBeGreaterThan(0);
+        expect(result.latency?.http?.loss).toBe(0);
+        expect(result.download?.avg).toBeGreaterThan(0);
+        expect(result.upload?.avg).toBeGreaterThan(0);
+    }, SPEED_TEST_TIMEOUT);
+
+    test('serves the LibreSpeed latency endpoint', async () => {
+        const result = await runSpeedTest({ testEndpoint: endpoint, type: 'LibreSpeed', icmp: false, tcp: false, latencySamples: 3, speedtest: false });
+
+        expect(result.latency?.http?.avg).toBeGreaterThan(0);
+        expect(result.latency?.http?.loss).toBe(0);
+        expect(result.download).toBeNull();
+        expect(result.upload).toBeNull();
+    }, SPEED_TEST_TIMEOUT);
+});